@@ -0,0 +1,62 @@
+#!/usr/bin/env node
+/**
+ * Converts n-gram JSON models into the binary model format.
+ *
+ * Usage: node scripts/build-binary-models.js [--out <file>] [<models.json> ...]
+ *
+ * Each input holds either the models of one script ({ "eng": "the|and|...", ... }),
+ * named after the file (latin.json -> Latin), or models for several scripts
+ * ({ "Latin": { "eng": ... }, ... }). Without inputs, the bundled models in
+ * src/data/ngrams are converted. Requires the CommonJS build (npm run build:cjs).
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { encodeModels } = require('../dist/cjs/binary.js');
+
+const defaultInputDir = path.join(__dirname, '../src/data/ngrams');
+
+const args = process.argv.slice(2);
+let out = path.join(__dirname, '../dist/models.bin');
+const inputs = [];
+for (let i = 0; i < args.length; i++) {
+  if (args[i] === '--out') {
+    out = args[++i];
+  } else {
+    inputs.push(args[i]);
+  }
+}
+if (inputs.length === 0) {
+  fs.readdirSync(defaultInputDir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .forEach((file) => inputs.push(path.join(defaultInputDir, file)));
+}
+
+try {
+  const models = {};
+  for (const input of inputs) {
+    const content = JSON.parse(fs.readFileSync(input, 'utf8'));
+    const values = Object.values(content);
+    if (values.length > 0 && values.every((value) => typeof value === 'object' && !Array.isArray(value))) {
+      // Several scripts: { script: { lang: model } }
+      for (const script in content) {
+        models[script] = { ...models[script], ...content[script] };
+      }
+    } else {
+      const name = path.basename(input, '.json');
+      const script = name.charAt(0).toUpperCase() + name.slice(1);
+      models[script] = { ...models[script], ...content };
+    }
+  }
+
+  const data = encodeModels(models);
+  fs.mkdirSync(path.dirname(out), { recursive: true });
+  fs.writeFileSync(out, data);
+
+  const count = Object.values(models).reduce((sum, langs) => sum + Object.keys(langs).length, 0);
+  console.log(`Wrote ${count} models (${data.length} bytes) to ${out}`);
+} catch (error) {
+  console.error('Binary model conversion failed:', error.message);
+  process.exit(1);
+}
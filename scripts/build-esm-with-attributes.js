@@ -19,8 +19,10 @@ function copyAndTransformFiles(srcPath, destPath) {
   const items = fs.readdirSync(srcPath);
   
   for (const item of items) {
+    // ES module variants (name.esm.ts) replace their CommonJS counterparts
+    if (item.endsWith('.ts') && items.includes(item.replace(/\.ts$/, '.esm.ts'))) continue;
     const srcItemPath = path.join(srcPath, item);
-    const destItemPath = path.join(destPath, item);
+    const destItemPath = path.join(destPath, item.replace(/\.esm\.ts$/, '.ts'));
     const stat = fs.statSync(srcItemPath);
     
     if (stat.isDirectory()) {
@@ -0,0 +1,127 @@
+import { LanguageGuesser } from "../language";
+import { ModelRegistry } from "../registry";
+import { guessChunk } from "../batch";
+
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+const portuguese =
+  "O rápido cachorro marrom pula sobre a cerca enquanto as crianças brincam no jardim.";
+
+// Worker standing in for `batch-worker`: echoes each text as its guess,
+// named after the type of the models it received, and crashes on the
+// text "crash".
+const echoWorker = new URL(
+  `data:text/javascript,${encodeURIComponent(`
+    import { parentPort, workerData } from "node:worker_threads";
+    parentPort.on("message", ({ start, texts }) => {
+      if (texts.includes("crash")) throw new Error("boom");
+      parentPort.postMessage(
+        texts.map((text, i) => ({
+          index: start + i,
+          results: [{ alpha3: text, alpha2: "", language: workerData.models.constructor.name, score: workerData.options.limit }],
+        })),
+      );
+    });
+  `)}`,
+);
+
+describe("guessBatch", () => {
+  let guesser: LanguageGuesser;
+
+  beforeEach(() => {
+    guesser = new LanguageGuesser();
+  });
+
+  test("should return one result per text, in order", async () => {
+    const texts = [english, portuguese, "", english];
+    const results = await guesser.guessBatch(texts, { limit: 1, chunkSize: 3 });
+    expect(results.map(({ index }) => index)).toEqual([0, 1, 2, 3]);
+    expect(results.map(({ results }) => results[0].alpha3)).toEqual([
+      "eng",
+      "por",
+      "und",
+      "eng",
+    ]);
+    expect(results[1].results).toEqual(guesser.guess(portuguese, [], 1));
+  });
+
+  test("should accept async iterables and allow lists", async () => {
+    async function* texts(): AsyncGenerator<string> {
+      yield english;
+      yield portuguese;
+    }
+    const results = await guesser.guessBatch(texts(), {
+      allowList: ["es", "pt"],
+      denyList: ["spa"],
+    });
+    expect(results).toHaveLength(2);
+    results.forEach(({ results }) => expect(results[0].alpha3).toBe("por"));
+  });
+
+  test("should isolate errors to the failing text", () => {
+    const results = guessChunk(
+      guesser,
+      { start: 5, texts: [english, { bad: true } as unknown as string] },
+      { allowList: [], denyList: [], limit: 1 },
+    );
+    expect(results[0]).toEqual({
+      index: 5,
+      results: guesser.guess(english, [], 1),
+    });
+    expect(results[1].index).toBe(6);
+    expect(results[1].results).toEqual([]);
+    expect(results[1].error).toEqual(expect.any(String));
+  });
+
+  test("should load lazy packs before guessing", async () => {
+    const lazy = new LanguageGuesser(ModelRegistry.lazy());
+    const [result] = await lazy.guessBatch([english], { limit: 1 });
+    expect(result.results[0].alpha3).toBe("eng");
+  });
+
+  test("should reject invalid options", async () => {
+    await expect(guesser.guessBatch([], { workers: -1 })).rejects.toThrow(
+      /Invalid workers/,
+    );
+    await expect(guesser.guessBatch([], { chunkSize: 0 })).rejects.toThrow(
+      /Invalid chunkSize/,
+    );
+  });
+
+  test("should spread chunks across workers and keep the input order", async () => {
+    const texts = Array.from({ length: 25 }, (_, i) => `text ${i}`);
+    const results = await guesser.guessBatch(texts, {
+      workers: 3,
+      chunkSize: 4,
+      limit: 7,
+      workerScript: echoWorker,
+    });
+    expect(results.map(({ results }) => results[0].alpha3)).toEqual(texts);
+    expect(results.every(({ results }) => results[0].score === 7)).toBe(true);
+    // Models are shared as binary data instead of being copied to each worker.
+    expect(results[0].results[0].language).toBe("SharedArrayBuffer");
+  });
+
+  test("should fail only the chunk of a crashed worker", async () => {
+    const texts = ["a", "b", "crash", "c", "d", "e"];
+    const results = await guesser.guessBatch(texts, {
+      workers: 2,
+      chunkSize: 2,
+      workerScript: echoWorker,
+    });
+    expect(results.map(({ index }) => index)).toEqual([0, 1, 2, 3, 4, 5]);
+    expect(results[2].error).toMatch(/boom/);
+    expect(results[3].error).toMatch(/boom/);
+    expect(results.filter(({ error }) => error)).toHaveLength(2);
+    expect(results[5].results[0].alpha3).toBe("e");
+  });
+
+  test("should reject settings that cannot reach worker threads", async () => {
+    const custom = new LanguageGuesser(undefined, {
+      normalization: [{ name: "noop", apply: (text: string): string => text }],
+    });
+    await expect(
+      custom.guessBatch([english], { workers: 1, workerScript: echoWorker }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,163 @@
+import { LanguageGuesser } from "../language";
+import { ModelRegistry, buildModelIndex } from "../registry";
+import { createBundledRegistry, ngramsData } from "../bundled";
+import { bayesMetric, cosineMetric, rankMetric } from "../metrics";
+import {
+  buildBinaryIndex,
+  decodeModels,
+  encodeModels,
+  hashTrigram,
+  lookupRank,
+} from "../binary";
+
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+const russian = "Привет, как дела? Я очень рад тебя видеть сегодня вечером.";
+
+describe("Binary models", () => {
+  test("lookupRank should find ranks in plain and binary indexes", () => {
+    const model = ["abc", "bcd", "cde", "abc"];
+    const binary = buildBinaryIndex(model);
+    expect(binary.hashes.length & (binary.hashes.length - 1)).toBe(0);
+    expect(lookupRank(binary, "abc")).toBe(0);
+    expect(lookupRank(binary, "cde")).toBe(2);
+    expect(lookupRank(binary, "xyz")).toBeUndefined();
+    expect(lookupRank({ abc: 4 }, "abc")).toBe(4);
+    expect(lookupRank(buildBinaryIndex([]), "abc")).toBeUndefined();
+    expect(hashTrigram("abc")).toBe(hashTrigram("abc"));
+    expect(hashTrigram("abc")).not.toBe(hashTrigram("abd"));
+    // Plain indexes also keep the better rank of a repeated trigram.
+    expect(lookupRank(buildModelIndex(model), "abc")).toBe(0);
+  });
+
+  test("lookupRank should tell apart trigrams sharing a hash", () => {
+    // Distinct tokens with the same FNV-1a hash.
+    expect(hashTrigram("csgs ")).toBe(hashTrigram("dd fv"));
+    const index = buildBinaryIndex(["csgs ", "abc", "dd fv"]);
+    expect(lookupRank(index, "csgs ")).toBe(0);
+    expect(lookupRank(index, "dd fv")).toBe(2);
+    expect(lookupRank(buildBinaryIndex(["csgs "]), "dd fv")).toBeUndefined();
+    const decoded = decodeModels(
+      encodeModels({ Latin: { tlh: ["csgs ", "dd fv"] } }),
+    );
+    expect(lookupRank(decoded.Latin.tlh.index, "dd fv")).toBe(1);
+  });
+
+  test("metrics should give the same distances with binary indexes", () => {
+    const model = ngramsData.Latin.eng;
+    const trigrams = LanguageGuesser.asTuples(english);
+    [rankMetric, bayesMetric, cosineMetric].forEach((metric) =>
+      expect(
+        metric.distance(trigrams, model, buildBinaryIndex(model)),
+      ).toBeCloseTo(metric.distance(trigrams, model, buildModelIndex(model))),
+    );
+    expect(
+      LanguageGuesser.getDistance(trigrams, model, buildBinaryIndex(model)),
+    ).toBe(LanguageGuesser.getDistance(trigrams, model));
+  });
+
+  test("should round-trip models through the binary format", () => {
+    const data = encodeModels({
+      Latin: { tlh: "qap|apl|pla", xyz: ["xyz"] },
+      Cyrillic: { zzz: [] },
+    });
+    const decoded = decodeModels(data);
+    expect(decoded.Latin.tlh.trigrams).toEqual(["qap", "apl", "pla"]);
+    expect(decoded.Latin.xyz.trigrams).toEqual(["xyz"]);
+    expect(decoded.Cyrillic.zzz.trigrams).toEqual([]);
+    expect(lookupRank(decoded.Latin.tlh.index, "pla")).toBe(2);
+
+    // Unaligned copies and plain array buffers decode the same way.
+    const unaligned = new Uint8Array(data.length + 1);
+    unaligned.set(data, 1);
+    expect(decodeModels(unaligned.subarray(1))).toEqual(decoded);
+    expect(decodeModels(data.slice().buffer)).toEqual(decoded);
+  });
+
+  test("a registry loaded from binary data should guess like the bundled one", () => {
+    const registry = ModelRegistry.fromBinary(encodeModels(ngramsData));
+    expect(registry.getScripts().sort()).toEqual(
+      Object.keys(ngramsData).sort(),
+    );
+    expect(registry.getModels("Latin")?.eng).toEqual(ngramsData.Latin.eng);
+    expect(registry.getLexicons()).toEqual(new ModelRegistry().getLexicons());
+    const binary = new LanguageGuesser(registry);
+    const bundled = new LanguageGuesser(createBundledRegistry());
+    [english, russian].forEach((text) =>
+      expect(binary.guess(text)).toEqual(bundled.guess(text)),
+    );
+    expect(binary.guessCalibrated(english)).toEqual(
+      bundled.guessCalibrated(english),
+    );
+  });
+
+  test("binary and text registries should give the same distances", () => {
+    const binary = ModelRegistry.fromBinary(encodeModels(ngramsData));
+    const text = createBundledRegistry();
+    [english, russian].forEach((sample) => {
+      const tuples = LanguageGuesser.asTuples(sample);
+      const script = sample === english ? "Latin" : "Cyrillic";
+      expect(
+        LanguageGuesser.getDistances(
+          tuples,
+          binary.getModels(script)!,
+          {},
+          binary.getIndexes(script),
+        ),
+      ).toEqual(
+        LanguageGuesser.getDistances(
+          tuples,
+          text.getModels(script)!,
+          {},
+          text.getIndexes(script),
+        ),
+      );
+    });
+  });
+
+  test("fromBinary should not load the bundled packs", async () => {
+    const loaded: string[] = [];
+    await jest.isolateModulesAsync(async () => {
+      jest.doMock("../packs/latin", () => {
+        loaded.push("Latin");
+        return jest.requireActual("../packs/latin");
+      });
+      const { ModelRegistry: Registry } = await import("../registry");
+      const registry = Registry.fromBinary(
+        encodeModels({ Latin: { eng: ngramsData.Latin.eng } }),
+      );
+      expect(registry.isLoadable("Latin")).toBe(false);
+      expect(registry.getLanguages()).toEqual(["eng"]);
+    });
+    expect(loaded).toEqual([]);
+  });
+
+  test("addBinary should add models next to existing ones", () => {
+    const registry = new ModelRegistry({ Latin: { tlh: ["qap"] } });
+    expect(registry.getIndexes("Latin").tlh).toEqual({ qap: 0 });
+    registry.addBinary(encodeModels({ Latin: { xyz: ["xyz", "yzx"] } }));
+    expect(registry.getLanguages("Latin").sort()).toEqual(["tlh", "xyz"]);
+    expect(lookupRank(registry.getIndexes("Latin").xyz, "yzx")).toBe(1);
+  });
+
+  test("should reject invalid data and models", () => {
+    expect(() => decodeModels(new Uint8Array([1, 2, 3]))).toThrow(
+      "Invalid binary model data.",
+    );
+    const data = encodeModels({ Latin: { tlh: ["qap"] } });
+    const future = data.slice();
+    future[4] = 2;
+    expect(() => decodeModels(future)).toThrow(
+      "Unsupported binary model version 2. Expected 1.",
+    );
+    expect(() => decodeModels(data.subarray(0, data.length - 4))).toThrow(
+      "Invalid binary model data.",
+    );
+    expect(() => encodeModels({ Latin: { tlh: ["a|b"] } })).toThrow(
+      /trigram containing "\|"/,
+    );
+    expect(() => buildBinaryIndex(new Array(70000).fill("abc"))).toThrow(
+      /Model too large/,
+    );
+  });
+});
@@ -0,0 +1,17 @@
+import { createBundledRegistry, ngramsData } from "../bundled";
+import { LanguageGuesser } from "../language";
+
+describe("Bundled models", () => {
+  test("createBundledRegistry should hold every pack without loading", () => {
+    const registry = createBundledRegistry();
+    expect(registry.getScripts().sort()).toEqual(
+      Object.keys(ngramsData).sort(),
+    );
+    expect(registry.isLoadable("Latin")).toBe(false);
+    expect(
+      new LanguageGuesser(registry).guessBest(
+        "Это пример предложения на русском языке.",
+      ).alpha3,
+    ).toBe("rus");
+  });
+});
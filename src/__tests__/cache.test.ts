@@ -0,0 +1,139 @@
+import { LanguageGuesser } from "../language";
+import { DetectionCache, fingerprintSettings, hashText } from "../cache";
+
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+
+describe("Detection cache", () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  test("hashText should tell texts apart", () => {
+    expect(hashText("thanks!")).toBe(hashText("thanks!"));
+    expect(hashText("thanks!")).not.toBe(hashText("thanks?"));
+    expect(hashText("ab")).not.toBe(hashText("ba"));
+    expect(hashText("")).toMatch(/:0$/);
+  });
+
+  test("should evict the least recently used entry", () => {
+    const cache = new DetectionCache<number>({ maxSize: 2 });
+    cache.set("a", 1);
+    cache.set("b", 2);
+    expect(cache.get("a")).toBe(1);
+    cache.set("c", 3);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("c")).toBe(3);
+    expect(cache.getStats()).toEqual({
+      hits: 3,
+      misses: 1,
+      evictions: 1,
+      size: 2,
+    });
+    cache.clear();
+    expect(cache.getStats()).toMatchObject({ hits: 3, size: 0 });
+  });
+
+  test("should expire entries after their time to live", () => {
+    const now = jest.spyOn(Date, "now").mockReturnValue(1000);
+    const cache = new DetectionCache<number>({ ttl: 50 });
+    cache.set("a", 1);
+    now.mockReturnValue(1049);
+    expect(cache.get("a")).toBe(1);
+    now.mockReturnValue(1050);
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.getStats()).toEqual({
+      hits: 1,
+      misses: 1,
+      evictions: 1,
+      size: 0,
+    });
+  });
+
+  test("should reject invalid limits", () => {
+    expect(() => new DetectionCache({ maxSize: 0 })).toThrow();
+    expect(() => new DetectionCache({ ttl: -1 })).toThrow();
+    expect(() => new DetectionCache({ maxSize: NaN })).toThrow();
+  });
+
+  test("guessers should only cache when enabled", () => {
+    const guesser = new LanguageGuesser();
+    guesser.guess(english);
+    guesser.guess(english);
+    expect(guesser.getCacheStats()).toEqual({
+      hits: 0,
+      misses: 0,
+      evictions: 0,
+      size: 0,
+    });
+  });
+
+  test("guess, guessBest and guessMixed should reuse cached results", () => {
+    const guesser = new LanguageGuesser(undefined, { cache: true });
+    const detectAll = jest.spyOn(LanguageGuesser, "detectAll");
+    const first = guesser.guess(english);
+    expect(guesser.guess(english)).toEqual(first);
+    expect(guesser.guessBest(english)).toEqual(first[0]);
+    expect(detectAll).toHaveBeenCalledTimes(1);
+    expect(guesser.getCacheStats()).toMatchObject({ hits: 2, misses: 1 });
+
+    const mixed = "Der Hund spielt im Garten. Le chat dort sur le canapé.";
+    const segments = guesser.guessMixed(mixed);
+    expect(guesser.guessMixed(mixed)).toEqual(segments);
+    expect(detectAll).toHaveBeenCalledTimes(3);
+    expect(guesser.getCacheStats()).toMatchObject({ misses: 3, size: 3 });
+  });
+
+  test("keys should include the lists and minimum length", () => {
+    const guesser = new LanguageGuesser(undefined, { cache: { maxSize: 10 } });
+    guesser.guess(english);
+    // Codes are resolved first, so equivalent lists share an entry.
+    expect(guesser.guess(english, ["en", "de"])[0].alpha3).toBe("eng");
+    expect(guesser.guess(english, ["eng", "deu"])[0].alpha3).toBe("eng");
+    expect(guesser.guess(english, [], 3, ["en"])[0].alpha3).not.toBe("eng");
+    guesser.defaultSettings.minLength = 200;
+    expect(guesser.guess(english)[0].alpha3).toBe("und");
+    expect(guesser.getCacheStats()).toMatchObject({ hits: 1, misses: 4 });
+  });
+
+  test("keys should include every scoring setting", () => {
+    const guesser = new LanguageGuesser(undefined, { cache: true });
+    const text = "Que tal amigo";
+    expect(guesser.guessBest(text).alpha3).not.toBe("spa");
+    guesser.defaultSettings.priors = { eng: 0.7, spa: 0.2 };
+    expect(guesser.guessBest(text).alpha3).toBe("spa");
+    guesser.defaultSettings.metric = "cosine";
+    guesser.guessBest(text);
+    expect(guesser.getCacheStats()).toMatchObject({ hits: 0, size: 3 });
+    const metric = { name: "zero", distance: (): number => 0 };
+    const fingerprints = [
+      {},
+      { metric: "bayes" as const },
+      { metric },
+      { metric: { ...metric } },
+      { lexicon: true },
+      { romanized: true },
+      { confusables: false },
+      { normalization: true },
+      { normalization: ["urls"] },
+      { priors: { eng: 0.5 } },
+      { sampling: { strategy: "spread" as const } },
+    ].map(fingerprintSettings);
+    expect(new Set(fingerprints).size).toBe(fingerprints.length);
+    expect(fingerprintSettings({ metric, priors: { a: 1, b: 2 } })).toBe(
+      fingerprintSettings({ metric, priors: { b: 2, a: 1 } }),
+    );
+  });
+
+  test("changing models should invalidate cached results", () => {
+    const guesser = new LanguageGuesser(undefined, { cache: true });
+    const model = guesser.registry.getModels("Latin")!.eng;
+    expect(guesser.guessBest(english).alpha3).toBe("eng");
+    guesser.removeModel("eng");
+    expect(guesser.guessBest(english).alpha3).not.toBe("eng");
+    guesser.registry.register("Latin", "eng", model);
+    expect(guesser.guessBest(english).alpha3).toBe("eng");
+    expect(guesser.getCacheStats()).toMatchObject({ hits: 0, size: 1 });
+    guesser.clearCache();
+    expect(guesser.getCacheStats().size).toBe(0);
+  });
+});
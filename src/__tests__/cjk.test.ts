@@ -0,0 +1,57 @@
+import { LanguageGuesser } from "../language";
+import { cjkScriptSubtag, detectCjk } from "../cjk";
+
+const simplified = "我们今天去学校学习中文，这个问题很难。";
+const traditional = "我們今天去學校學習中文，這個問題很難。";
+const cantonese = "佢哋今日唔喺度，我哋聽日再嚟啦。";
+const japanese = "日本語の文章です。東京駅から新幹線に乗りました。";
+const korean = "大韓民國은 民主共和國이다. 오늘 날씨가 좋네요.";
+
+describe("CJK detection", () => {
+  test("detectCjk should tell Mandarin, Cantonese, Japanese and Korean apart", () => {
+    expect(detectCjk(simplified)[0][0]).toBe("cmn");
+    expect(detectCjk(traditional)[0][0]).toBe("cmn");
+    expect(detectCjk(cantonese)[0][0]).toBe("yue");
+    expect(detectCjk(japanese)[0][0]).toBe("jpn");
+    expect(detectCjk(korean)[0][0]).toBe("kor");
+    expect(detectCjk("no CJK here")).toEqual([]);
+  });
+
+  test("detectCjk should return scores summing to 1", () => {
+    const scores = detectCjk(`${simplified}唔該`);
+    const total = scores.reduce((sum, [, score]) => sum + score, 0);
+    expect(total).toBeCloseTo(1);
+    expect(scores.map(([lang]) => lang)).toEqual(["cmn", "yue"]);
+    expect(scores[0][1]).toBeLessThan(1);
+  });
+
+  test("cjkScriptSubtag should pick Hans, Hant, Jpan or Kore", () => {
+    expect(cjkScriptSubtag("cmn", simplified)).toBe("Hans");
+    expect(cjkScriptSubtag("cmn", traditional)).toBe("Hant");
+    expect(cjkScriptSubtag("yue", "佢哋")).toBe("Hant");
+    expect(cjkScriptSubtag("cmn", "中文")).toBe("Hans");
+    expect(cjkScriptSubtag("jpn", japanese)).toBe("Jpan");
+    expect(cjkScriptSubtag("kor", korean)).toBe("Kore");
+  });
+
+  test("guess and detect should use the CJK sub-detector", () => {
+    const guesser = new LanguageGuesser();
+    expect(guesser.guess(cantonese, [], 1)[0]).toMatchObject({
+      alpha3: "yue",
+      language: "Cantonese",
+    });
+    expect(guesser.detect(traditional, { limit: 1 })[0].tag).toBe("zh-Hant");
+    expect(guesser.detect(simplified, { limit: 1 })[0].tag).toBe("zh-Hans");
+    expect(guesser.detect(cantonese, { limit: 1 })[0].tag).toBe("yue-Hant");
+    expect(guesser.detect(japanese, { limit: 1 })[0].tag).toBe("ja-Jpan");
+    expect(guesser.detect(korean, { limit: 1 })[0].tag).toBe("ko-Kore");
+  });
+
+  test("allow and deny lists should apply to CJK candidates", () => {
+    const guesser = new LanguageGuesser();
+    expect(guesser.guess(japanese, ["jpn", "kor"], 3)[0].alpha3).toBe("jpn");
+    expect(guesser.guess(japanese, ["eng"], 1)[0].alpha3).toBe("und");
+    const withMarkers = `${simplified}唔該`;
+    expect(guesser.guess(withMarkers, [], 1, ["cmn"])[0].alpha3).toBe("yue");
+  });
+});
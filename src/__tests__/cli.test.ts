@@ -0,0 +1,144 @@
+import { CliIO, parseCliArgs, runCli } from "../cli";
+
+const english =
+  "The quick brown fox jumps over the lazy dog while the children play in the garden.";
+const portuguese =
+  "O rápido cachorro marrom pula sobre a cerca enquanto as crianças brincam no jardim.";
+
+function createIO(
+  stdin = "",
+  files: Record<string, string> = {},
+): CliIO & { out: () => string; err: () => string } {
+  let out = "";
+  let err = "";
+  return {
+    stdin: (async function* (): AsyncGenerator<Uint8Array> {
+      yield new TextEncoder().encode(stdin);
+    })(),
+    stdout: { write: (text: string): boolean => Boolean((out += text)) },
+    stderr: { write: (text: string): boolean => Boolean((err += text)) },
+    readFile: async (path: string): Promise<string> => {
+      if (!(path in files)) throw new Error(`ENOENT: ${path}`);
+      return files[path];
+    },
+    out: (): string => out,
+    err: (): string => err,
+  };
+}
+
+describe("CLI", () => {
+  test("parseCliArgs should read options and files", () => {
+    const options = parseCliArgs([
+      "-l",
+      "--format",
+      "jsonl",
+      "--allow",
+      "en, pt",
+      "-d",
+      "spa",
+      "-n",
+      "1",
+      "a.txt",
+      "-",
+    ]);
+    expect(options).toMatchObject({
+      lines: true,
+      format: "jsonl",
+      allowList: ["en", "pt"],
+      denyList: ["spa"],
+      limit: 1,
+      files: ["a.txt", "-"],
+    });
+    expect(() => parseCliArgs(["--format", "xml"])).toThrow(/Unknown format/);
+    expect(() => parseCliArgs(["--limit", "0"])).toThrow(/Invalid limit/);
+    expect(() => parseCliArgs(["--limit"])).toThrow(/Missing value/);
+    expect(() => parseCliArgs(["--bogus"])).toThrow(/Unknown option/);
+  });
+
+  test("should detect stdin and print plain text", async () => {
+    const io = createIO(english);
+    expect(await runCli(["-n", "1"], io)).toBe(0);
+    expect(io.out()).toMatch(/^eng\ten\tEnglish\t\d\.\d{4}\n$/);
+  });
+
+  test("should detect each line and print JSONL", async () => {
+    const io = createIO(`${english}\n\n${portuguese}\n`);
+    expect(
+      await runCli(["--lines", "-f", "jsonl", "-n", "1", "-a", "en,pt"], io),
+    ).toBe(0);
+    const records = io
+      .out()
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(records.map((r) => r.source)).toEqual(["-:1", "-:3"]);
+    expect(records.map((r) => r.guesses[0].alpha3)).toEqual(["eng", "por"]);
+    expect(records[0].guesses[0]).toEqual(
+      expect.objectContaining({ alpha2: "en", name: "English" }),
+    );
+  });
+
+  test("should read files and print JSON", async () => {
+    const io = createIO("", { "en.txt": english, "pt.txt": portuguese });
+    expect(await runCli(["en.txt", "pt.txt", "--format", "json"], io)).toBe(0);
+    const results = JSON.parse(io.out());
+    expect(results).toHaveLength(2);
+    expect(results[1].source).toBe("pt.txt");
+    expect(results[1].guesses[0].alpha3).toBe("por");
+  });
+
+  test("should label plain text output when there are several inputs", async () => {
+    const io = createIO("", {
+      "en.txt": `${english} ${english}`,
+      "pt.txt": `${portuguese} ${portuguese}`,
+    });
+    await runCli(["en.txt", "pt.txt", "-n", "1", "--mixed"], io);
+    const lines = io.out().trim().split("\n");
+    expect(lines[0]).toMatch(/^en\.txt\teng\t/);
+    expect(lines[1]).toMatch(/^pt\.txt\tpor\t/);
+  });
+
+  test("should annotate a JSONL field", async () => {
+    const io = createIO(
+      [
+        JSON.stringify({ id: 1, body: english }),
+        JSON.stringify({ id: 2 }),
+      ].join("\n"),
+    );
+    expect(
+      await runCli(["--field", "body", "--into", "lang", "-n", "1"], io),
+    ).toBe(0);
+    const [first, second] = io
+      .out()
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(first.id).toBe(1);
+    expect(first.lang[0].alpha3).toBe("eng");
+    expect(second.lang).toBeNull();
+  });
+
+  test("should report errors with exit codes", async () => {
+    let io = createIO("not json");
+    expect(await runCli(["--field", "body"], io)).toBe(1);
+    expect(io.err()).toContain("-:1: invalid JSON");
+
+    for (const line of ["null", "42", '"text"', "[1]"]) {
+      io = createIO(`{"body": "Hello"}\n${line}`);
+      expect(await runCli(["--field", "body"], io)).toBe(1);
+      expect(io.err()).toContain("-:2: expected a JSON object");
+    }
+
+    io = createIO();
+    expect(await runCli(["missing.txt"], io)).toBe(1);
+    expect(io.err()).toContain("ENOENT");
+
+    io = createIO();
+    expect(await runCli(["--bogus"], io)).toBe(2);
+    expect(io.err()).toContain("Usage:");
+
+    io = createIO();
+    expect(await runCli(["--help"], io)).toBe(0);
+    expect(io.out()).toContain("Usage:");
+  });
+});
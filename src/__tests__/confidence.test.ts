@@ -0,0 +1,129 @@
+import { LanguageGuesser } from "../language";
+import {
+  isReliable,
+  normalizeProbabilities,
+  RELIABLE_MIN_LENGTH,
+  RELIABLE_MIN_MARGIN,
+  toProbabilities,
+} from "../confidence";
+
+describe("Confidence", () => {
+  test("toProbabilities should sum to 1 and keep the order", () => {
+    const probabilities = toProbabilities([
+      ["spa", 100],
+      ["glg", 120],
+      ["por", 400],
+    ]);
+    const total = probabilities.reduce((sum, [, p]) => sum + p, 0);
+    expect(total).toBeCloseTo(1);
+    expect(probabilities.map(([lang]) => lang)).toEqual(["spa", "glg", "por"]);
+    expect(probabilities[0][1]).toBeGreaterThan(probabilities[1][1]);
+    expect(probabilities[2][1]).toBeLessThan(0.01);
+    expect(toProbabilities([])).toEqual([]);
+  });
+
+  test("normalizeProbabilities should rescale to 1", () => {
+    expect(
+      normalizeProbabilities([
+        ["spa", 3],
+        ["glg", 1],
+      ]),
+    ).toEqual([
+      ["spa", 0.75],
+      ["glg", 0.25],
+    ]);
+    expect(normalizeProbabilities([["und", 0]])).toEqual([["und", 0]]);
+  });
+
+  test("isReliable should require length, probability, coverage and margin", () => {
+    expect(isReliable(RELIABLE_MIN_LENGTH, 0.9, 0.5, 0.1)).toBe(true);
+    expect(isReliable(RELIABLE_MIN_LENGTH - 1, 0.9, 0.5, 0.1)).toBe(false);
+    expect(isReliable(RELIABLE_MIN_LENGTH, 0.4, 0.5, 0.1)).toBe(false);
+    expect(isReliable(RELIABLE_MIN_LENGTH, 0.9, 0.95, 0.1)).toBe(false);
+    expect(
+      isReliable(RELIABLE_MIN_LENGTH, 0.9, 0.5, RELIABLE_MIN_MARGIN / 2),
+    ).toBe(false);
+  });
+});
+
+describe("LanguageGuesser calibrated guesses", () => {
+  let guesser: LanguageGuesser;
+
+  beforeEach(() => {
+    guesser = new LanguageGuesser();
+  });
+
+  test("should return probabilities summing to 1 and a reliable flag", () => {
+    const result = guesser.guessCalibrated(
+      "Der schnelle braune Fuchs springt über den faulen Hund.",
+      [],
+      200,
+    );
+    const total = result.results.reduce((sum, r) => sum + r.score, 0);
+    expect(total).toBeCloseTo(1);
+    expect(result.results[0].alpha3).toBe("deu");
+    expect(result.confidence).toBe(result.results[0].score);
+    expect(result.isReliable).toBe(true);
+    expect(result.margin).toBeGreaterThan(0);
+  });
+
+  test("should rescale the probabilities of the returned candidates", () => {
+    const text =
+      "Vláda včera oznámila, že nová hospodářská opatření vstoupí v platnost příští měsíc.";
+    const all = guesser.guessCalibrated(text, [], 200);
+    expect(all.results.length).toBeGreaterThan(2);
+    [1, 2].forEach((limit) => {
+      const result = guesser.guessCalibrated(text, [], limit);
+      expect(result.results).toHaveLength(limit);
+      const total = result.results.reduce((sum, r) => sum + r.score, 0);
+      expect(total).toBeCloseTo(1);
+      expect(result.confidence).toBe(all.confidence);
+    });
+  });
+
+  test("should flag close calls as unreliable", () => {
+    // Czech and Slovak trigrams barely tell this sentence apart.
+    const result = guesser.guessCalibrated(
+      "Vláda včera oznámila, že nová hospodářská opatření vstoupí v platnost příští měsíc.",
+    );
+    expect(result.results[0].alpha3).toBe("ces");
+    expect(result.margin).toBeLessThan(RELIABLE_MIN_MARGIN);
+    expect(result.isReliable).toBe(false);
+  });
+
+  test("should flag gibberish and short text as unreliable", () => {
+    expect(guesser.guessCalibrated("asdkj qwpoe zxmnv xcvb").isReliable).toBe(
+      false,
+    );
+    expect(guesser.guessCalibrated("Hello world").isReliable).toBe(false);
+  });
+
+  test("should return und for text too short", () => {
+    const result = guesser.guessCalibrated("Hi");
+    expect(result.results[0].alpha3).toBe("und");
+    expect(result.isReliable).toBe(false);
+    expect(result.confidence).toBe(0);
+  });
+
+  test("should handle scripts without n-gram models", () => {
+    const detection = LanguageGuesser.detectCalibrated(
+      "Αυτή είναι μια πρόταση στα ελληνικά.",
+    );
+    expect(detection.probabilities).toEqual([["ell", 1]]);
+    expect(detection.margin).toBe(1);
+    expect(detection.missRatio).toBe(0);
+  });
+
+  test("should handle allow lists that exclude every model", () => {
+    const detection = LanguageGuesser.detectCalibrated(
+      "This is a sample sentence written in English.",
+      { allowList: ["xyz"] },
+    );
+    expect(detection.probabilities).toEqual([["und", 1]]);
+    expect(
+      LanguageGuesser.detectCalibrated("This is a sentence in English.", {
+        allowList: ["eng"],
+      }).margin,
+    ).toBe(1);
+  });
+});
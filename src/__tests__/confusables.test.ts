@@ -0,0 +1,159 @@
+import { LanguageGuesser } from "../language";
+import {
+  confusableGroups,
+  disambiguate,
+  resolveConfusables,
+} from "../confusables";
+import { IConfusableGroup } from "../interfaces/IConfusableGroup";
+
+const portuguese =
+  "O governo anunciou ontem que as novas medidas econômicas entrarão em vigor no próximo mês.";
+const indonesian =
+  "Pemerintah mengumumkan kemarin bahwa kebijakan ekonomi baru akan mulai berlaku bulan depan.";
+const bosnian =
+  "Vlada je jučer objavila da će nove ekonomske mjere stupiti na snagu narednog mjeseca.";
+const bokmal =
+  "Regjeringen kunngjorde i går at de nye økonomiske tiltakene trer i kraft neste måned.";
+const galician =
+  "A lingua galega é unha lingua románica que se fala en Galicia. Tamén se fala nalgunhas zonas de Asturias.";
+const scots =
+  "Ah dinnae ken whit ye're sayin, but the bairns are awa tae the kirk.";
+const czech =
+  "Vláda včera oznámila, že nová hospodářská opatření vstoupí v platnost příští měsíc.";
+const slovak =
+  "Vláda včera oznámila, že nové hospodárske opatrenia vstúpia do platnosti budúci mesiac.";
+
+const group: IConfusableGroup = {
+  name: "test",
+  markers: {
+    aaa: { words: "alpha" },
+    bbb: { words: "beta", chars: "ß", patterns: ["bb+"] },
+    ccc: { words: "gamma" },
+  },
+};
+
+describe("Confusable languages", () => {
+  test("disambiguate should re-rank group members by their markers", () => {
+    const scores: [string, number][] = [
+      ["aaa", 1],
+      ["xxx", 0.95],
+      ["bbb", 0.9],
+      ["ccc", 0.5],
+    ];
+    // Scores stay in place; only the languages in the group move.
+    expect(disambiguate(scores, "Beta beta alpha ßbbb", [group])).toEqual([
+      ["bbb", 1],
+      ["xxx", 0.95],
+      ["aaa", 0.9],
+      ["ccc", 0.5],
+    ]);
+    // Ties and texts without markers keep the trigram order.
+    expect(disambiguate(scores, "alpha beta", [group])).toEqual(scores);
+    expect(disambiguate(scores, "nothing here", [group])).toBe(scores);
+    // Members beyond the margin are not considered.
+    expect(disambiguate(scores, "gamma gamma", [group])).toBe(scores);
+    expect(
+      disambiguate(scores, "gamma gamma", [{ ...group, margin: 0.6 }])[0][0],
+    ).toBe("ccc");
+    // Nothing changes when the top candidate is outside the group.
+    expect(disambiguate(scores.slice(1), "beta beta", [group])).toEqual(
+      scores.slice(1),
+    );
+  });
+
+  test("the fallback language should lead texts without markers", () => {
+    const scores: [string, number][] = [
+      ["bbb", 1],
+      ["aaa", 0.95],
+      ["ccc", 0.5],
+    ];
+    const withFallback = { ...group, fallback: "aaa" };
+    expect(disambiguate(scores, "nothing here", [withFallback])).toEqual([
+      ["aaa", 1],
+      ["bbb", 0.95],
+      ["ccc", 0.5],
+    ]);
+    // Markers still decide, and a distant fallback is not promoted.
+    expect(disambiguate(scores, "beta", [withFallback])).toEqual(scores);
+    expect(
+      disambiguate(scores, "nothing here", [{ ...group, fallback: "ccc" }]),
+    ).toBe(scores);
+  });
+
+  test("resolveConfusables should resolve the setting", () => {
+    expect(resolveConfusables()).toBe(confusableGroups);
+    expect(resolveConfusables(true)).toBe(confusableGroups);
+    expect(resolveConfusables(false)).toEqual([]);
+    expect(resolveConfusables([group])).toEqual([group]);
+    expect(() =>
+      disambiguate(
+        [
+          ["aaa", 1],
+          ["bbb", 1],
+        ],
+        "text",
+        [{ name: "bad", markers: { aaa: { patterns: ["("] }, bbb: {} } }],
+      ),
+    ).toThrow(SyntaxError);
+  });
+
+  test("should tell closely related languages apart", () => {
+    const expected: [string, string][] = [
+      [portuguese, "por"],
+      [indonesian, "ind"],
+      [bosnian, "bos"],
+      [bokmal, "nob"],
+      [galician, "glg"],
+      [scots, "sco"],
+      [czech, "ces"],
+      [slovak, "slk"],
+    ];
+    expected.forEach(([text, lang]) => {
+      expect(LanguageGuesser.detectAll(text)[0][0]).toBe(lang);
+      expect(LanguageGuesser.detectCalibrated(text).probabilities[0][0]).toBe(
+        lang,
+      );
+    });
+    // Without the tier, trigrams alone pick a neighbour.
+    expect(
+      LanguageGuesser.detectAll(bokmal, { confusables: false })[0][0],
+    ).toBe("dan");
+    expect(
+      new LanguageGuesser(undefined, { confusables: false }).guessBest(czech)
+        .alpha3,
+    ).not.toBe("ces");
+  });
+
+  test("custom groups should replace or extend the bundled ones", () => {
+    const tlh: IConfusableGroup = {
+      name: "klingon",
+      markers: { tlh: { words: "qapla" }, xyz: { words: "xyz" } },
+    };
+    const guesser = new LanguageGuesser(undefined, {
+      confusables: [...confusableGroups, tlh],
+    });
+    guesser.registerModel("Latin", "tlh", "qap|apl|pla", { name: "Klingon" });
+    guesser.registerModel("Latin", "xyz", "qap|apl|pla|la ", { name: "Xyz" });
+    expect(guesser.guessBest("qapla qapla qapla qapla").alpha3).toBe("tlh");
+    expect(guesser.guessBest("qapla qapla xyz xyz xyz").alpha3).toBe("xyz");
+    expect(guesser.guessBest(portuguese).alpha3).toBe("por");
+  });
+
+  test("guesses should carry the metadata of every bundled language", () => {
+    const guesser = new LanguageGuesser();
+    expect(guesser.guessBest(galician)).toMatchObject({
+      alpha3: "glg",
+      alpha2: "gl",
+      language: "Galician",
+    });
+    expect(guesser.guessBest(scots)).toMatchObject({
+      alpha3: "sco",
+      language: "Scots",
+    });
+    expect(
+      guesser.registry
+        .getLanguages()
+        .filter((alpha3) => !guesser.getLanguage(alpha3)),
+    ).toEqual([]);
+  });
+});
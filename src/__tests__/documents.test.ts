@@ -0,0 +1,209 @@
+import { LanguageGuesser } from "../language";
+import {
+  extractBlocks,
+  extractHtml,
+  extractJson,
+  extractMarkdown,
+} from "../documents";
+import { ITextBlock } from "../interfaces/IDocumentGuess";
+
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+
+const html = `<!DOCTYPE html>
+<html lang="en">
+<head><title>My life</title><style>p { color: red; }</style></head>
+<body>
+  <script>if (a < b) document.write("<p>Hola a todos</p>");</script>
+  <!-- <p>Commented out</p> -->
+  <p class="intro">${english}</p>
+  <p lang="fr">Le chien joue dans le jardin et le chat dort sur le canapé.</p>
+  <pre><code>const garden = new Garden();</code></pre>
+  <ul><li>Water the <b>roses</b> every morning</li><li lang="">Unknown</li></ul>
+</body>
+</html>`;
+
+const markdown = `# Notas del jardín
+
+El perro juega en el [jardín](https://example.com/garden) y el gato
+duerme en el \`sofa.ts\` del salón. ![Una rosa roja](rose.png)
+
+\`\`\`ts
+const jardin = new Garden();
+\`\`\`
+
+    indented code block
+
+- Regar las rosas cada mañana https://example.com
+- Cortar el césped
+
+| Planta | Cuidado |
+|--------|---------|
+
+[garden]: https://example.com/garden
+`;
+
+// Checks that every block spans the part of the document it came from.
+const expectSpans = (document: string, blocks: ITextBlock[]): void =>
+  blocks.forEach(({ text, start, end }) => {
+    const [first] = text.split(" ");
+    expect(document.slice(start, end)).toContain(first);
+  });
+
+describe("Document extraction", () => {
+  test("extractHtml should keep the human text of blocks", () => {
+    const blocks = extractHtml(html);
+    expect(blocks).toEqual([
+      expect.objectContaining({ text: "My life", hint: "en" }),
+      expect.objectContaining({ text: english, hint: "en" }),
+      expect.objectContaining({
+        text: "Le chien joue dans le jardin et le chat dort sur le canapé.",
+        hint: "fr",
+      }),
+      expect.objectContaining({
+        text: "Water the roses every morning",
+        hint: "en",
+      }),
+      { text: "Unknown", start: expect.any(Number), end: expect.any(Number) },
+    ]);
+    expectSpans(html, blocks);
+  });
+
+  test("extractHtml should handle fragments and loose markup", () => {
+    expect(
+      extractHtml("Caf&eacute; &#233;t&#xE9;<br>next <i>line</i><script>x"),
+    ).toEqual([
+      { text: "Café été", start: 0, end: 25 },
+      { text: "next line", start: 29, end: 41 },
+    ]);
+    expect(extractHtml("<div><p>Open <span lang=de>Tür</div> end")).toEqual([
+      { text: "Open", start: 8, end: 12 },
+      { text: "Tür", start: 27, end: 30, hint: "de" },
+      { text: "end", start: 37, end: 40 },
+    ]);
+    expect(extractHtml("Fish&bogus;chips &#0;")[0].text).toBe("Fish chips");
+    expect(
+      extractHtml("<p>İİİİ</p><script>var x=1;</script><p>Hello</p>"),
+    ).toEqual([
+      { text: "İİİİ", start: 3, end: 7 },
+      { text: "Hello", start: 39, end: 44 },
+    ]);
+    expect(
+      extractHtml("<STYLE>p{}</Style><p>Hi</p>").map(({ text }) => text),
+    ).toEqual(["Hi"]);
+    expect(extractHtml("")).toEqual([]);
+  });
+
+  test("extractMarkdown should skip code, URLs and syntax", () => {
+    const blocks = extractMarkdown(markdown);
+    expect(blocks.map(({ text }) => text)).toEqual([
+      "Notas del jardín",
+      "El perro juega en el jardín y el gato duerme en el del salón. Una rosa roja",
+      "Regar las rosas cada mañana",
+      "Cortar el césped",
+      "Planta Cuidado",
+    ]);
+    expectSpans(markdown, blocks);
+  });
+
+  test("extractJson should select string fields with their paths", () => {
+    const json = `{"id": "a1", "title": "Der Hund", "tags": ["x"],
+      "items": [{"title": "Le \\"chat\\"", "n": 1.5, "ok": null}]}`;
+    const blocks = extractJson(json);
+    expect(blocks.map(({ path, text }) => [path, text])).toEqual([
+      ["id", "a1"],
+      ["title", "Der Hund"],
+      ["tags[0]", "x"],
+      ["items[0].title", 'Le "chat"'],
+    ]);
+    // Spans cover the string literals, without their quotes.
+    blocks.forEach(({ text, start, end }) =>
+      expect(JSON.parse(`"${json.slice(start, end)}"`)).toBe(text),
+    );
+    expect(extractJson(json, ["title"]).map(({ path }) => path)).toEqual([
+      "title",
+      "items[0].title",
+    ]);
+    expect(extractJson(json, ["items.title"])).toHaveLength(1);
+    expect(extractJson('"Bonjour"')).toEqual([
+      { text: "Bonjour", start: 1, end: 8, path: "" },
+    ]);
+    expect(() => extractJson("{title: 1}")).toThrow(SyntaxError);
+  });
+
+  test("extractBlocks should reject unknown formats", () => {
+    expect(extractBlocks("# Title", "markdown")).toHaveLength(1);
+    expect(() => extractBlocks("", "xml" as "html")).toThrow(
+      'Unknown document format "xml"',
+    );
+  });
+});
+
+describe("LanguageGuesser.guessDocument", () => {
+  const guesser = new LanguageGuesser();
+
+  test("should guess HTML documents and their blocks", () => {
+    const { results, blocks } = guesser.guessDocument(html, {
+      format: "html",
+      limit: 1,
+    });
+    expect(results).toEqual([expect.objectContaining({ alpha3: "eng" })]);
+    expect(blocks.map((block) => block.results[0].alpha3)).toEqual([
+      "und",
+      "eng",
+      "fra",
+      "eng",
+      "und",
+    ]);
+    expect(blocks[2].hint).toBe("fr");
+    // Scores are probabilities, the document's weighted by block length.
+    expect(blocks[2].results[0].score).toBeCloseTo(1);
+    expect(results[0].score).toBeLessThan(1);
+  });
+
+  test("lang attributes should settle close calls", () => {
+    const document = '<p lang="en-GB">Event calendar</p>';
+    const guess = (langHints: boolean): string =>
+      guesser.guessDocument(document, { format: "html", langHints }).blocks[0]
+        .results[0].alpha3;
+    expect(guess(true)).toBe("eng");
+    expect(guess(false)).toBe(guesser.guessBest("Event calendar").alpha3);
+    expect(guess(false)).not.toBe("eng");
+    // Clear evidence wins over the declared language.
+    const mislabelled = guesser.guessDocument(`<p lang="fr">${english}</p>`, {
+      format: "html",
+    });
+    expect(mislabelled.results[0].alpha3).toBe("eng");
+  });
+
+  test("should guess Markdown and JSON documents", () => {
+    expect(
+      guesser.guessDocument(markdown, { format: "markdown" }).results[0].alpha3,
+    ).toBe("spa");
+    const json = JSON.stringify({
+      id: "c0ffee",
+      body: "Der Hund spielt im Garten und die Katze schläft auf dem Sofa.",
+      comments: [{ text: "Le chien joue dans le jardin avec les enfants." }],
+    });
+    const { results, blocks } = guesser.guessDocument(json, {
+      format: "json",
+      fields: ["body", "comments.text"],
+      allowList: ["de", "fr"],
+    });
+    expect(results[0].alpha3).toBe("deu");
+    expect(
+      blocks.map(({ path, results: [best] }) => [path, best.alpha3]),
+    ).toEqual([
+      ["body", "deu"],
+      ["comments[0].text", "fra"],
+    ]);
+  });
+
+  test("documents without text should be undetermined", () => {
+    const { results, blocks } = guesser.guessDocument("<script>x()</script>", {
+      format: "html",
+    });
+    expect(blocks).toEqual([]);
+    expect(results[0].alpha3).toBe("und");
+  });
+});
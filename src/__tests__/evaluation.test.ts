@@ -0,0 +1,99 @@
+import { LanguageGuesser } from "../language";
+import {
+  computeLanguageMetrics,
+  evaluate,
+  formatReport,
+  parseDataset,
+} from "../evaluation";
+
+const english =
+  "The quick brown fox jumps over the lazy dog while the children play in the garden.";
+const portuguese =
+  "O rápido cachorro marrom pula sobre a cerca enquanto as crianças brincam no jardim.";
+
+describe("Evaluation", () => {
+  test("parseDataset should read JSONL and TSV datasets", () => {
+    const jsonl = parseDataset(
+      `{"text":"hello","label":"en"}\n\n{"text":"olá","label":"pt"}\n`,
+      "jsonl",
+    );
+    expect(jsonl).toEqual([
+      { text: "hello", label: "en" },
+      { text: "olá", label: "pt" },
+    ]);
+    const tsv = parseDataset("en\thello world\r\npor\tolá mundo", "tsv");
+    expect(tsv).toEqual([
+      { text: "hello world", label: "en" },
+      { text: "olá mundo", label: "por" },
+    ]);
+    const custom = parseDataset(`{"s":"hi","lang":"en"}`, "jsonl", {
+      textField: "s",
+      labelField: "lang",
+    });
+    expect(custom).toEqual([{ text: "hi", label: "en" }]);
+  });
+
+  test("parseDataset should reject malformed lines", () => {
+    expect(() => parseDataset("en hello", "tsv")).toThrow(/Line 1/);
+    expect(() => parseDataset(`{"text":1,"label":"en"}`, "jsonl")).toThrow(
+      /Line 1/,
+    );
+    expect(() =>
+      parseDataset(`{"text":"hi","label":"en"}\n{"text":`, "jsonl"),
+    ).toThrow("Line 2: invalid JSON.");
+    expect(() => parseDataset("\nnull", "jsonl")).toThrow(
+      "Line 2: expected a JSON object.",
+    );
+  });
+
+  test("computeLanguageMetrics should derive precision, recall and F1", () => {
+    const metrics = computeLanguageMetrics({
+      eng: { eng: 3, por: 1 },
+      por: { por: 2 },
+    });
+    expect(metrics.eng).toEqual({
+      precision: 1,
+      recall: 0.75,
+      f1: 2 * (0.75 / 1.75),
+      support: 4,
+      predicted: 3,
+    });
+    expect(metrics.por.precision).toBeCloseTo(2 / 3);
+    expect(metrics.por.recall).toBe(1);
+  });
+
+  test("evaluate should report accuracy, confusions and length buckets", () => {
+    const guesser = new LanguageGuesser();
+    const report = evaluate(
+      guesser,
+      [
+        { text: english, label: "en" },
+        { text: portuguese, label: "por" },
+        { text: english, label: "pt" },
+      ],
+      { allowList: ["eng", "por"], lengthBuckets: [50] },
+    );
+    expect(report.total).toBe(3);
+    expect(report.correct).toBe(2);
+    expect(report.accuracy).toBeCloseTo(2 / 3);
+    expect(report.confusion).toEqual({
+      eng: { eng: 1 },
+      por: { por: 1, eng: 1 },
+    });
+    expect(report.languages.por.recall).toBe(0.5);
+    expect(report.lengths).toHaveLength(2);
+    expect(report.lengths[1]).toMatchObject({ min: 50, total: 3, correct: 2 });
+    expect(report.lengths[0].accuracy).toBe(0);
+
+    const text = formatReport(report);
+    expect(text).toContain("Accuracy: 66.7% (2/3)");
+    expect(text).toContain("por -> eng: 1");
+    expect(text).toContain("50+");
+  });
+
+  test("formatReport should handle an empty evaluation", () => {
+    const report = evaluate(new LanguageGuesser(), []);
+    expect(report.accuracy).toBe(0);
+    expect(formatReport(report)).toContain("none");
+  });
+});
@@ -0,0 +1,114 @@
+import { LanguageGuesser } from "../language";
+import { formatExplanation } from "../explain";
+import { IDistanceMetric } from "../interfaces/IDistanceMetric";
+
+const portuguese =
+  "O rápido cachorro marrom pula sobre a cerca enquanto as crianças brincam no jardim.";
+
+describe("explain", () => {
+  let guesser: LanguageGuesser;
+
+  beforeEach(() => {
+    guesser = new LanguageGuesser();
+  });
+
+  test("should break each candidate's distance down by trigram", () => {
+    const explanation = guesser.explain(portuguese);
+    expect(explanation.decidedBy).toBe("trigrams");
+    expect(explanation.script).toBe("Latin");
+    expect(explanation.scriptShare).toBeCloseTo(1);
+    expect(explanation.metric).toBe("rank");
+    expect(explanation.length).toBe(portuguese.length);
+    expect(explanation.candidates).toHaveLength(3);
+    expect(
+      explanation.candidates.map(({ alpha3, score }) => ({ alpha3, score })),
+    ).toEqual(
+      guesser.guess(portuguese).map(({ alpha3, score }) => ({ alpha3, score })),
+    );
+
+    explanation.candidates.forEach((candidate) => {
+      const all = [...candidate.matched, ...candidate.missing];
+      expect(all).toHaveLength(explanation.trigrams);
+      expect(all.reduce((sum, item) => sum + item.contribution!, 0)).toBe(
+        candidate.distance,
+      );
+      candidate.missing.forEach((item) => {
+        expect(item.rank).toBeUndefined();
+        expect(item.contribution).toBe(300);
+      });
+      const ranks = candidate.matched.map((item) => item.rank!);
+      expect(ranks).toEqual([...ranks].sort((a, b) => a - b));
+    });
+  });
+
+  test("should honour allow lists and limits", () => {
+    const explanation = guesser.explain(portuguese, {
+      allowList: ["gl", "pt"],
+      limit: 1,
+    });
+    expect(explanation.candidates).toHaveLength(1);
+    expect(["por", "glg"]).toContain(explanation.candidates[0].alpha3);
+  });
+
+  test("should explain candidates of metrics without contributions", () => {
+    const metric: IDistanceMetric = {
+      name: "constant",
+      distance: () => 1,
+    };
+    const explanation = new LanguageGuesser(undefined, { metric }).explain(
+      portuguese,
+      { limit: 1 },
+    );
+    expect(explanation.metric).toBe("constant");
+    expect(explanation.candidates[0].distance).toBe(1);
+    expect(explanation.candidates[0].matched[0].contribution).toBeUndefined();
+    expect(formatExplanation(explanation)).not.toMatch(/\+\d/);
+  });
+
+  test("should explain text without trigram models", () => {
+    const explanation = guesser.explain("これは日本語で書かれた短い文章です。");
+    expect(explanation.decidedBy).toBe("cjk");
+    expect(explanation.script).toBe("jpn");
+    expect(explanation.candidates[0].alpha3).toBe("jpn");
+    expect(explanation.candidates[0].distance).toBeUndefined();
+    expect(formatExplanation(explanation)).toMatch(
+      /Decided by: Han, kana and Hangul[^]*Not scored by trigrams/,
+    );
+    const greek = guesser.explain("Αυτή είναι μια πρόταση στα ελληνικά.");
+    expect(greek.decidedBy).toBe("script");
+    expect(greek.candidates[0].alpha3).toBe("ell");
+    expect(guesser.explain("").decidedBy).toBe("none");
+    expect(guesser.explain("").candidates).toEqual([]);
+    expect(formatExplanation(guesser.explain(""))).toMatch(/No candidate/);
+  });
+
+  test("should not list trigrams for text decided by known words", () => {
+    const explanation = new LanguageGuesser(undefined, {
+      lexicon: true,
+    }).explain("gracias");
+    expect(explanation.decidedBy).toBe("lexicon");
+    expect(explanation.candidates[0].alpha3).toBe("spa");
+    explanation.candidates.forEach((candidate) => {
+      expect(candidate.distance).toBeUndefined();
+      expect(candidate.matched).toEqual([]);
+      expect(candidate.missing).toEqual([]);
+    });
+    expect(formatExplanation(explanation)).toMatch(/Decided by: known words/);
+  });
+
+  test("formatExplanation should render a readable report", () => {
+    const report = formatExplanation(
+      guesser.explain(
+        "O governo anunciou ontem que as novas medidas econômicas entrarão em vigor no próximo mês.",
+      ),
+      2,
+    );
+    expect(report).toMatch(/^Script: Latin \(100\.0% of characters\)/);
+    expect(report).toMatch(/1\. por .*: score 1\.0000, distance \d+\.\d/);
+    expect(report).toMatch(
+      /Matched \d+\/\d+: "[^"]{3}" (x\d+ )?#\d+ \+\d+\.\d/,
+    );
+    expect(report).toMatch(/Missing \d+\/\d+: "[^"]{3}" .*\+300\.0/);
+    expect(report).toMatch(/, \.\.\./);
+  });
+});
@@ -0,0 +1,176 @@
+import { Readable } from "stream";
+import { LanguageGuesser } from "../language";
+import { ModelRegistry } from "../registry";
+import { ScriptNotLoadedError } from "../errors";
+import { IncrementalDetector, MAX_PENDING_LENGTH } from "../incremental";
+
+const english =
+  "This document is provided for informational purposes only and is subject to change. ";
+const german =
+  "Der schnelle braune Fuchs springt über den faulen Hund und läuft in den Wald zurück. ";
+const russian =
+  "Быстрая коричневая лиса прыгает через ленивую собаку и убегает обратно в лес. ";
+const japanese = "今日は天気がとても良いので、公園へ散歩に行きました。";
+const thai = "วันนี้อากาศดีมากเราจึงไปเดินเล่นที่สวนสาธารณะด้วยกัน";
+
+describe("IncrementalDetector", () => {
+  let guesser: LanguageGuesser;
+
+  beforeEach(() => {
+    guesser = new LanguageGuesser();
+  });
+
+  test("should analyze the whole input instead of its head", () => {
+    const doc = english.repeat(30) + russian.repeat(40);
+    expect(LanguageGuesser.detectAll(doc)[0][0]).toBe("eng");
+    const detector = new IncrementalDetector(guesser, { earlyStop: false });
+    for (let i = 0; i < doc.length; i += 333) {
+      detector.push(doc.substring(i, i + 333));
+    }
+    const result = detector.end();
+    expect(result.results[0].alpha3).toBe("rus");
+    expect(detector.length).toBe(doc.length);
+  });
+
+  test("should count the same trigrams however the input is chunked", () => {
+    const whole = new IncrementalDetector(guesser, { earlyStop: false });
+    whole.push(german);
+    const split = new IncrementalDetector(guesser, { earlyStop: false });
+    split.push(german.substring(0, 7));
+    split.push(german.substring(7, 30));
+    split.push(german.substring(30));
+    expect(split.end()).toEqual(whole.end());
+    expect(whole.guess()).toEqual(
+      guesser.toCalibratedGuess(LanguageGuesser.detectCalibrated(german)),
+    );
+  });
+
+  test("should analyze streams written without spaces", () => {
+    for (const [text, expected] of [
+      [japanese, "jpn"],
+      [thai, "tha"],
+    ]) {
+      const detector = new IncrementalDetector(guesser, { earlyStop: false });
+      for (let i = 0; i < 100; i++) detector.push(text);
+      expect(detector.length).toBeGreaterThan(
+        text.length * 100 - MAX_PENDING_LENGTH - text.length,
+      );
+      expect(detector.guess().results[0].alpha3).toBe(expected);
+    }
+  });
+
+  test("should count the same trigrams when long words are cut", () => {
+    const word = german.replace(/\s/g, "").repeat(40);
+    const results = [7, 300, 1000].map((size) => {
+      const detector = new IncrementalDetector(guesser, { earlyStop: false });
+      for (let i = 0; i < word.length; i += size) {
+        detector.push(word.substring(i, i + size));
+      }
+      return detector.end();
+    });
+    expect(results[1]).toEqual(results[0]);
+    expect(results[2]).toEqual(results[0]);
+  });
+
+  test("should keep unterminated markup for the next chunk", () => {
+    const normalized = new LanguageGuesser(undefined, { normalization: true });
+    const doc =
+      `<p class="lead" title="the quick fox">${german}</p>\n` +
+      `\`\`\`\nconst the = quick + fox;\n\`\`\`\n${german}\`the quick fox\` ${german}`;
+    const whole = new IncrementalDetector(normalized, { earlyStop: false });
+    whole.push(doc);
+    for (const size of [5, 11, 40]) {
+      const split = new IncrementalDetector(normalized, { earlyStop: false });
+      for (let i = 0; i < doc.length; i += size) {
+        split.push(doc.substring(i, i + size));
+      }
+      expect(split.end()).toEqual(whole.end());
+    }
+  });
+
+  test("should check stability every stabilityInterval characters", () => {
+    const detector = new IncrementalDetector(guesser, {
+      stabilityInterval: german.length * 4,
+      patience: 100,
+    });
+    const guess = jest.spyOn(detector, "guess");
+    for (let i = 0; i < 20; i++) detector.push(german);
+    expect(guess.mock.calls.length).toBeLessThanOrEqual(5);
+    expect(guess.mock.calls.length).toBeGreaterThanOrEqual(4);
+  });
+
+  test("should stop early once the guess is stable", () => {
+    const detector = new IncrementalDetector(guesser, { patience: 2 });
+    let chunks = 0;
+    while (!detector.push(german) && chunks < 50) chunks++;
+    expect(detector.isStable).toBe(true);
+    expect(chunks).toBeLessThan(50);
+    expect(detector.guess().results[0].alpha3).toBe("deu");
+    detector.reset();
+    expect(detector.isStable).toBe(false);
+    expect(detector.length).toBe(0);
+  });
+
+  test("should return und before enough text is analyzed", () => {
+    const detector = new IncrementalDetector(guesser);
+    expect(detector.guess().results[0].alpha3).toBe("und");
+    detector.push("Hallo ");
+    expect(detector.guess().results[0].alpha3).toBe("und");
+  });
+
+  test("should honour allow lists and scripts without models", () => {
+    const detector = new IncrementalDetector(guesser, {
+      allowList: ["en", "de"],
+      earlyStop: false,
+    });
+    detector.push("Esta es una oración de ejemplo en español. ");
+    expect(["eng", "deu"]).toContain(detector.guess().results[0].alpha3);
+    const greek = new IncrementalDetector(guesser);
+    greek.push("Αυτή είναι μια πρόταση στα ελληνικά. ");
+    expect(greek.guess().results[0].alpha3).toBe("ell");
+  });
+
+  test("should consume Node readables", async () => {
+    const detector = new IncrementalDetector(guesser);
+    const result = await detector.consume(
+      Readable.from([Buffer.from(german.repeat(3)), german]),
+    );
+    expect(result.results[0].alpha3).toBe("deu");
+  });
+
+  test("should consume web readable streams", async () => {
+    const stream = new ReadableStream<string>({
+      start(controller): void {
+        controller.enqueue(german.repeat(20));
+        controller.enqueue(german.repeat(20));
+        controller.close();
+      },
+    });
+    const result = await new IncrementalDetector(guesser).consume(stream);
+    expect(result.results[0].alpha3).toBe("deu");
+  });
+
+  test("should load the packs of lazy registries before consuming", async () => {
+    const lazy = new LanguageGuesser(ModelRegistry.lazy());
+    const pushed = new IncrementalDetector(lazy);
+    pushed.push(german);
+    expect(() => pushed.end()).toThrow(ScriptNotLoadedError);
+    const result = await new IncrementalDetector(lazy).consume(
+      Readable.from([german, russian.repeat(3)]),
+    );
+    expect(result.results[0].alpha3).toBe("rus");
+    expect(lazy.registry.hasScript("Cyrillic")).toBe(true);
+  });
+});
+
+describe("Sampling strategies", () => {
+  test("spread sampling should look past the head of long documents", () => {
+    const doc = english.repeat(30) + russian.repeat(40);
+    expect(LanguageGuesser.detectAll(doc)[0][0]).toBe("eng");
+    expect(
+      LanguageGuesser.detectAll(doc, {
+        sampling: { strategy: "spread" },
+      })[0][0],
+    ).toBe("rus");
+  });
+});
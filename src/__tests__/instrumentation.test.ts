@@ -0,0 +1,131 @@
+import { LanguageGuesser } from "../language";
+import { measurePhase, traceDetection } from "../instrumentation";
+import { IDetectionTrace } from "../interfaces/IInstrumentation";
+
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+
+// Returns a guesser whose traces are collected in `traces`.
+const tracedGuesser = (): {
+  guesser: LanguageGuesser;
+  traces: IDetectionTrace[];
+} => {
+  const traces: IDetectionTrace[] = [];
+  const guesser = new LanguageGuesser(undefined, {
+    instrumentation: {
+      onDetection: (trace): void => {
+        traces.push(trace);
+      },
+    },
+  });
+  return { guesser, traces };
+};
+
+describe("Instrumentation", () => {
+  test("should report the phases, candidates and decision of a detection", () => {
+    const { guesser, traces } = tracedGuesser();
+    const before = Date.now();
+    guesser.guess(english);
+    expect(traces).toHaveLength(1);
+    const [trace] = traces;
+    expect(trace.phases.map(({ phase }) => phase)).toEqual([
+      "script",
+      "trigrams",
+      "distances",
+      "scoring",
+    ]);
+    expect(trace).toMatchObject({
+      script: "Latin",
+      language: "eng",
+      score: 1,
+      length: english.length,
+    });
+    expect(trace.candidates).toBe(
+      Object.keys(guesser.registry.getModels("Latin")!).length,
+    );
+    expect(trace.startTime).toBeGreaterThanOrEqual(before);
+    trace.phases.forEach(({ start, duration }) => {
+      expect(start).toBeGreaterThanOrEqual(0);
+      expect(start + duration).toBeLessThanOrEqual(trace.duration);
+    });
+  });
+
+  test("should count the candidates left by allow and deny lists", () => {
+    const { guesser, traces } = tracedGuesser();
+    guesser.guess(english, ["en", "de", "fr"], 3, ["fr"]);
+    guesser.guess("这是一个中文句子，我们用来测试。", [], 3, ["yue"]);
+    expect(traces.map(({ candidates }) => candidates)).toEqual([2, 1]);
+    expect(traces[1].phases.map(({ phase }) => phase)).toEqual([
+      "script",
+      "scoring",
+    ]);
+  });
+
+  test("should report calibrated and undetermined detections once", () => {
+    const { guesser, traces } = tracedGuesser();
+    guesser.guessCalibrated(english);
+    guesser.guess("");
+    guesser.guess("Αυτή είναι μια πρόταση στα ελληνικά.");
+    expect(traces).toHaveLength(3);
+    expect(traces[0].language).toBe("eng");
+    // Calibrated detections report the probability of the top candidate.
+    expect(traces[0].score).toBeGreaterThan(0.5);
+    expect(traces[0].score).toBeLessThanOrEqual(1);
+    expect(traces[0].phases.map(({ phase }) => phase)).toContain("distances");
+    expect(traces[1]).toMatchObject({ language: "und", phases: [] });
+    expect(traces[2]).toMatchObject({ script: "ell", language: "ell" });
+  });
+
+  test("should trace every text of a batch", async () => {
+    const { guesser, traces } = tracedGuesser();
+    await guesser.guessBatch([
+      english,
+      "Der Hund spielt im Garten und die Kinder lesen ein Buch.",
+    ]);
+    expect(traces.map(({ language }) => language)).toEqual(["eng", "deu"]);
+  });
+
+  test("should time detections without a global performance clock", async () => {
+    const clock = Object.getOwnPropertyDescriptor(globalThis, "performance")!;
+    Reflect.deleteProperty(globalThis, "performance");
+    try {
+      await jest.isolateModulesAsync(async () => {
+        const tracing = await import("../instrumentation");
+        const traces: IDetectionTrace[] = [];
+        tracing.traceDetection(
+          { onDetection: (trace): number => traces.push(trace) },
+          () => tracing.measurePhase("script", () => "Latin"),
+          () => ["eng", 1],
+        );
+        expect(traces[0].duration).toBeGreaterThanOrEqual(0);
+        expect(traces[0].phases[0].phase).toBe("script");
+      });
+    } finally {
+      Object.defineProperty(globalThis, "performance", clock);
+    }
+  });
+
+  test("should do nothing outside a traced detection", () => {
+    expect(measurePhase("script", () => 42)).toBe(42);
+    const onDetection = jest.fn();
+    expect(() =>
+      traceDetection(
+        { onDetection },
+        () => {
+          throw new Error("failed");
+        },
+        () => ["und", 0],
+      ),
+    ).toThrow("failed");
+    // Failed detections are not reported, and the next one starts afresh.
+    expect(onDetection).not.toHaveBeenCalled();
+    traceDetection(
+      { onDetection },
+      () => 1,
+      () => ["eng", 1],
+    );
+    expect(onDetection).toHaveBeenCalledWith(
+      expect.objectContaining({ language: "eng", phases: [] }),
+    );
+  });
+});
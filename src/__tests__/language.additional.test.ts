@@ -1,5 +1,5 @@
 import { LanguageGuesser } from "../language";
-import { ngramsData } from "../ngrams";
+import { ngramsData } from "../bundled";
 
 describe("LanguageGuesser.detectAll edge cases", () => {
   let originalGetTopScript: typeof LanguageGuesser.getTopScript;
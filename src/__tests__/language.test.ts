@@ -185,7 +185,10 @@ describe("LanguageGuesser instance methods", () => {
   });
 
   test("should handle long input efficiently", () => {
-    const longText = "a".repeat(5000);
+    // "a".repeat(5000) used to come out as Portuguese only because parsing
+    // dropped the spaces of word-boundary trigrams, so real text is used.
+    const longText =
+      "Eu gosto muito de ler livros no parque com os meus amigos. ".repeat(100);
     const result = guesser.guess(longText, [], 1);
     expect(result[0].alpha3).toBe("por");
   });
@@ -0,0 +1,99 @@
+import { LanguageGuesser } from "../language";
+import { LanguageCatalog, languageData } from "../languages";
+import { UnknownLanguageError } from "../errors";
+
+const bokmal =
+  "Regjeringen kunngjorde i går at de nye økonomiske tiltakene trer i kraft neste måned.";
+const german = "Der Hund spielt im Garten mit dem Ball.";
+
+describe("Language metadata", () => {
+  const catalog = new LanguageCatalog();
+
+  test("should look languages up by any code form", () => {
+    ["de", "deu", "ger", "DEU", "De"].forEach((code) =>
+      expect(catalog.get(code)?.alpha3).toBe("deu"),
+    );
+    expect(catalog.get("iw")?.alpha3).toBe("heb");
+    expect(catalog.get("fil")?.alpha3).toBe("tgl");
+    expect(catalog.get("zho")?.alpha3).toBe("cmn");
+    expect(catalog.get("xx")).toBeUndefined();
+    expect(catalog.list()).toHaveLength(languageData.length);
+    const deu = catalog.get("de")!;
+    expect(deu.nativeName).toBe("Deutsch");
+    expect(deu.scripts).toEqual(["Latn"]);
+    expect(catalog.get("sr")?.scripts).toEqual(["Cyrl", "Latn"]);
+  });
+
+  test("convert should map codes between code systems", () => {
+    expect(catalog.convert("fre", "alpha2")).toBe("fr");
+    expect(catalog.convert("fr", "bibliographic")).toBe("fre");
+    expect(catalog.convert("fr", "terminology")).toBe("fra");
+    expect(catalog.convert("zh", "terminology")).toBe("zho");
+    expect(catalog.convert("zh", "alpha3")).toBe("cmn");
+    expect(catalog.convert("spa", "bibliographic")).toBe("spa");
+    // Languages without a code in the target system.
+    expect(catalog.convert("yue", "alpha2")).toBeUndefined();
+    expect(catalog.convert("zlm", "terminology")).toBeUndefined();
+    expect(catalog.convert("xx", "alpha3")).toBeUndefined();
+  });
+
+  test("getName should localize names", () => {
+    expect(catalog.getName("de")).toBe("German");
+    expect(catalog.getName("de", "fr")).toBe("allemand");
+    expect(catalog.getName("ger", "es")).toBe("alemán");
+    expect(catalog.getName("xx", "fr")).toBeUndefined();
+    const custom = new LanguageCatalog([
+      { alpha2: "", alpha3: "x_y", name: "Custom" },
+    ]);
+    expect(custom.getName("x_y", "fr")).toBe("Custom");
+    expect(() => catalog.getName("de", "not a locale")).toThrow(RangeError);
+  });
+
+  test("resolve should expand macrolanguages", () => {
+    expect(catalog.getMembers("no")).toEqual(["nno", "nob"]);
+    expect(catalog.getMembers("zh")).toEqual(["cmn", "yue"]);
+    expect(catalog.getMembers("cmn")).toEqual([]);
+    expect(catalog.resolve(["zh"]).codes).toEqual(["cmn", "yue"]);
+    expect(catalog.resolve(["cmn", "nb"]).codes).toEqual(["cmn", "nob"]);
+    expect(catalog.resolve(["hbs", "sw"])).toEqual({
+      codes: ["bos", "hrv", "srp", "swa", "swh", "swc"],
+      unknown: [],
+    });
+    expect(catalog.resolve(["ar", "xx", "arb"])).toEqual({
+      codes: ["arb"],
+      unknown: ["xx"],
+    });
+  });
+
+  test("guessers should accept every code form in allow and deny lists", () => {
+    const guesser = new LanguageGuesser();
+    expect(guesser.guessBest(bokmal, ["no"]).alpha3).toBe("nob");
+    expect(guesser.guess(german, ["ger", "fre"], 2)[0].alpha3).toBe("deu");
+    expect(guesser.guess(german, [], 1, ["DE"])[0].alpha3).not.toBe("deu");
+    expect(guesser.getLanguage("ger")?.name).toBe("German");
+    // Every bundled model is listed, individual languages included.
+    expect(() => guesser.guess(german, ["gl", "glg", "deu"])).not.toThrow();
+    expect(
+      guesser.guessBest(
+        "Kiswahili ni lugha ya Kibantu inayozungumzwa na watu wengi katika Afrika ya Mashariki.",
+        ["sw"],
+      ).alpha3,
+    ).toBe("swh");
+    ["uz", "yi", "mn", "az"].forEach((code) => {
+      expect(() => guesser.guess(german, [code, "de"])).not.toThrow();
+    });
+  });
+
+  test("guessers should report unknown codes", () => {
+    const guesser = new LanguageGuesser();
+    expect(() => guesser.guess(german, ["de", "xx", "yy"])).toThrow(
+      UnknownLanguageError,
+    );
+    try {
+      guesser.guessCalibrated(german, [], 1, ["xx"]);
+    } catch (error) {
+      expect((error as UnknownLanguageError).codes).toEqual(["xx"]);
+    }
+    expect.assertions(2);
+  });
+});
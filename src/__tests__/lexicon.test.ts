@@ -0,0 +1,71 @@
+import { LanguageGuesser } from "../language";
+import { ModelRegistry } from "../registry";
+import {
+  combineScores,
+  lexiconData,
+  parseLexiconValue,
+  scoreLexicon,
+  tokenizeWords,
+} from "../lexicon";
+
+describe("Lexicon", () => {
+  test("tokenizeWords and parseLexiconValue should normalize words", () => {
+    expect(tokenizeWords("Danke Schön!")).toEqual(["danke", "schon"]);
+    expect(parseLexiconValue("Hola hola adiós")).toEqual(["hola", "adios"]);
+    expect(parseLexiconValue(["Ciao", "grazie"])).toEqual(["ciao", "grazie"]);
+    expect(lexiconData.deu).toContain("danke");
+  });
+
+  test("scoreLexicon should rank languages by known words", () => {
+    const lexicons = { spa: ["gracias", "amigo"], por: ["obrigado", "amigo"] };
+    expect(scoreLexicon("Gracias, amigo", lexicons)).toEqual([
+      ["spa", 1],
+      ["por", 0.5],
+    ]);
+    expect(scoreLexicon("gracias amigo", lexicons, ["por"])).toEqual([
+      ["por", 0.5],
+    ]);
+    expect(scoreLexicon("gracias amigo", lexicons, [], ["spa"])).toEqual([
+      ["por", 0.5],
+    ]);
+    expect(scoreLexicon("!!!", lexicons)).toEqual([]);
+  });
+
+  test("combineScores should blend trigram and lexicon scores", () => {
+    const combined = combineScores(
+      [
+        ["epo", 1],
+        ["spa", 0.9],
+      ],
+      [["spa", 1]],
+    );
+    expect(combined[0][0]).toBe("spa");
+    expect(combined[0][1]).toBeCloseTo(0.95);
+    expect(combined[1]).toEqual(["epo", 0.5]);
+  });
+
+  test("should detect short inputs when the lexicon layer is enabled", () => {
+    const guesser = new LanguageGuesser(undefined, { lexicon: true });
+    expect(guesser.guess("gracias amigo", [], 1)[0].alpha3).toBe("spa");
+    expect(guesser.guess("danke schön", [], 1)[0].alpha3).toBe("deu");
+    expect(guesser.guess("merci beaucoup", [], 1)[0].alpha3).toBe("fra");
+    // Below minLength only the lexicon is used.
+    expect(guesser.guess("ciao", [], 1)[0].alpha3).toBe("ita");
+    expect(guesser.guess("xyzzy", [], 1)[0].alpha3).toBe("und");
+    // Disabled by default.
+    expect(new LanguageGuesser().guess("ciao", [], 1)[0].alpha3).toBe("und");
+  });
+
+  test("word lists should be swappable per registry", () => {
+    const registry = new ModelRegistry();
+    registry.registerLexicon("tlh", "qapla batlh");
+    const guesser = new LanguageGuesser(registry, { lexicon: true });
+    guesser.registerModel("Latin", "tlh", "qap|apl|pla", { name: "Klingon" });
+    expect(guesser.guess("qapla", [], 1)[0].alpha3).toBe("tlh");
+    expect(registry.removeLexicon("tlh")).toBe(true);
+    expect(registry.removeLexicon("tlh")).toBe(false);
+    expect(guesser.guess("qapla", [], 1)[0].alpha3).toBe("und");
+    expect(ModelRegistry.empty().getLexicons()).toEqual({});
+    expect(registry.clone().getLexicons()).toEqual(registry.getLexicons());
+  });
+});
@@ -0,0 +1,100 @@
+import { LanguageGuesser } from "../language";
+import { buildModelIndex } from "../registry";
+import {
+  bayesMetric,
+  cosineMetric,
+  MISSING_TRIGRAM_PENALTY,
+  rankMetric,
+  resolveMetric,
+} from "../metrics";
+import { IDistanceMetric } from "../interfaces/IDistanceMetric";
+
+const model = ["abc", "bcd", "cde"];
+const index = buildModelIndex(model);
+
+describe("Distance metrics", () => {
+  test("rank metric should match getDistance", () => {
+    const trigrams: [string, number][] = [
+      ["abc", 2],
+      ["def", 3],
+    ];
+    expect(rankMetric.distance(trigrams, model, index)).toBe(
+      LanguageGuesser.getDistance(trigrams, model),
+    );
+  });
+
+  test.each([bayesMetric, cosineMetric])(
+    "$name metric should range from 0 to the missing penalty per trigram",
+    (metric) => {
+      const missing = metric.distance(
+        [
+          ["xyz", 1],
+          ["wxy", 2],
+        ],
+        model,
+        index,
+      );
+      expect(missing).toBeCloseTo(2 * MISSING_TRIGRAM_PENALTY);
+      const matching = metric.distance(
+        [
+          ["abc", 3],
+          ["bcd", 2],
+        ],
+        model,
+        index,
+      );
+      expect(matching).toBeLessThan(missing);
+      expect(matching).toBeGreaterThanOrEqual(0);
+      expect(metric.distance([], model, index)).toBe(0);
+    },
+  );
+
+  test.each([rankMetric, bayesMetric, cosineMetric])(
+    "$name metric contributions should add up to the distance",
+    (metric) => {
+      const trigrams: [string, number][] = [
+        ["abc", 2],
+        ["xyz", 1],
+        ["cde", 3],
+      ];
+      const contributions = metric.contributions!(trigrams, model, index);
+      expect(contributions).toHaveLength(3);
+      expect(contributions[1]).toBeGreaterThan(contributions[0]);
+      expect(contributions.reduce((sum, c) => sum + c, 0)).toBeCloseTo(
+        metric.distance(trigrams, model, index),
+      );
+    },
+  );
+
+  test("resolveMetric should resolve names and custom metrics", () => {
+    expect(resolveMetric()).toBe(rankMetric);
+    expect(resolveMetric("cosine")).toBe(cosineMetric);
+    const custom: IDistanceMetric = { name: "zero", distance: () => 0 };
+    expect(resolveMetric(custom)).toBe(custom);
+    expect(() => resolveMetric("euclid" as "rank")).toThrow(
+      'Unknown distance metric "euclid"',
+    );
+  });
+});
+
+describe("LanguageGuesser with distance metrics", () => {
+  test.each(["rank", "bayes", "cosine"] as const)(
+    "should detect German with the %s metric",
+    (metric) => {
+      const result = LanguageGuesser.detectAll(
+        "Der schnelle braune Fuchs springt über den faulen Hund und läuft " +
+          "danach in den Wald zurück, wo er sich unter einem Baum versteckt.",
+        { metric },
+      );
+      expect(result[0][0]).toBe("deu");
+    },
+  );
+
+  test("should use a custom metric from the default settings", () => {
+    const metric: IDistanceMetric = { name: "constant", distance: () => 0 };
+    const spy = jest.spyOn(metric, "distance");
+    const guesser = new LanguageGuesser(undefined, { metric });
+    guesser.guess("This is a sample sentence written in English.");
+    expect(spy).toHaveBeenCalled();
+  });
+});
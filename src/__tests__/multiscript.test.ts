@@ -0,0 +1,76 @@
+import { LanguageGuesser } from "../language";
+import { getScriptDistribution, splitByScript } from "../multiscript";
+
+const serbian =
+  "Здраво свима, како сте данас? Ovo je tekst napisan latinicom na srpskom jeziku.";
+const hinglish =
+  "मैं आज office जा रहा हूँ क्योंकि मेरी meeting है और फिर मैं घर वापस आऊंगा।";
+
+describe("Multi-script detection", () => {
+  test("getScriptDistribution should return shares summing to 1", () => {
+    const distribution = getScriptDistribution(serbian);
+    expect(distribution.map(([script]) => script)).toEqual([
+      "Latin",
+      "Cyrillic",
+    ]);
+    const total = distribution.reduce((sum, [, share]) => sum + share, 0);
+    expect(total).toBeCloseTo(1);
+    expect(getScriptDistribution("12345")).toEqual([]);
+  });
+
+  test("getScriptDistribution should group Han, kana and Hangul", () => {
+    const distribution = getScriptDistribution("日本語の文章です");
+    expect(distribution).toEqual([["cmn", 1]]);
+  });
+
+  test("splitByScript should assign each word to its script", () => {
+    const portions = splitByScript(hinglish);
+    expect(portions.Latin).toBe("office meeting");
+    expect(portions.Devanagari).toContain("क्योंकि");
+    expect(portions.Devanagari).not.toContain("office");
+    expect(splitByScript("とかな漢字 123")).toEqual({ jpn: "とかな漢字" });
+  });
+
+  test("detectScripts should score each script against its own models", () => {
+    const guesser = new LanguageGuesser();
+    const { results, scripts } = guesser.detectScripts(serbian, {
+      allowList: ["sr", "ru", "en"],
+    });
+    expect(scripts.map((portion) => portion.script)).toEqual([
+      "Latin",
+      "Cyrillic",
+    ]);
+    const cyrillic = scripts[1];
+    expect(cyrillic.text).toBe("Здраво свима, како сте данас?");
+    expect(cyrillic.results[0].tag).toBe("sr-Cyrl");
+    expect(results[0].alpha3).toBe("srp");
+    // Serbian collects probability from both portions.
+    expect(results[0].score).toBeGreaterThan(cyrillic.coverage);
+    const total = results.reduce((sum, guess) => sum + guess.score, 0);
+    expect(total).toBeLessThanOrEqual(1 + 1e-9);
+  });
+
+  test("detectScripts should match the README example", () => {
+    const { results, scripts } = new LanguageGuesser().detectScripts(
+      "Здраво свима, како сте данас? Ovo je tekst na srpskom jeziku koji sam napisao juče uveče.",
+    );
+    expect(results[0]).toMatchObject({ alpha3: "srp", tag: "sr-Latn" });
+    expect(results[0].score).toBeCloseTo(0.91, 2);
+    expect(results[1]).toMatchObject({ alpha3: "bos", tag: "bs-Latn" });
+    expect(scripts.map(({ coverage }) => coverage.toFixed(2))).toEqual([
+      "0.68",
+      "0.32",
+    ]);
+  });
+
+  test("detectScripts should respect the limit and handle empty text", () => {
+    const guesser = new LanguageGuesser();
+    const { results, scripts } = guesser.detectScripts(hinglish, { limit: 1 });
+    expect(results).toHaveLength(1);
+    expect(scripts.every((portion) => portion.results.length === 1)).toBe(true);
+    expect(guesser.detectScripts("")).toEqual({
+      results: [expect.objectContaining({ alpha3: "und", tag: "und" })],
+      scripts: [],
+    });
+  });
+});
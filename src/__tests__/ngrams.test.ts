@@ -1,4 +1,6 @@
-import { parseNgramValue, rawNgramsData, ngramsData } from "../ngrams";
+import { parseNgramValue } from "../ngrams";
+import { rawNgramsData, ngramsData } from "../bundled";
+import { serializeProfile, trainProfile } from "../training";
 
 describe("Ngrams", () => {
   test("should parse pipe-separated n-gram string into an array of tokens", () => {
@@ -20,4 +22,11 @@ describe("Ngrams", () => {
       parseNgramValue(rawNgramsData[script][lang]),
     );
   });
+
+  test("should keep the spaces of word-boundary trigrams", () => {
+    expect(parseNgramValue(" de|os | a ")).toEqual([" de", "os ", " a "]);
+    const profile = trainProfile("os dados de todos os dias");
+    expect(profile).toEqual(expect.arrayContaining([" de", "os "]));
+    expect(parseNgramValue(serializeProfile(profile))).toEqual(profile);
+  });
 });
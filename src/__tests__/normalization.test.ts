@@ -0,0 +1,79 @@
+import { LanguageGuesser } from "../language";
+import { IncrementalDetector } from "../incremental";
+import {
+  DEFAULT_NORMALIZATION,
+  normalizationSteps,
+  normalizeText,
+  resolveNormalization,
+} from "../normalization";
+
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+const noise =
+  "https://example.com/path?q=1 info@example.org @someone #hashtag 🎉👍🏽 <b>2024</b> `let x = 1;` &amp;";
+
+describe("Normalization", () => {
+  test("built-in steps should strip their kind of noise", () => {
+    const strip = (name: string, text: string): string =>
+      normalizeText(text, [name]).trim();
+    expect(strip("urls", "see https://example.com/a?b=c now")).toBe("see now");
+    expect(strip("urls", "or www.example.com")).toBe("or");
+    expect(strip("emails", "mail a.b@example.co.uk")).toBe("mail");
+    expect(strip("mentions", "hi @bob and a@b")).toBe("hi and a@b");
+    expect(strip("hashtags", "#tbt photo#1")).toBe("photo#1");
+    expect(strip("emoji", "ok 👍🏽 🇧🇷 👨‍👩‍👧 ❤️")).toBe("ok");
+    expect(strip("html", "<p class='x'>hi&nbsp;there</p>")).toBe("hi there");
+    expect(strip("code", "run `npm test` or ```\ncode\n``` now")).toBe(
+      "run or now",
+    );
+    expect(strip("digits", "room 101")).toBe("room");
+    expect(strip("casefold", "ÉCOLE")).toBe("école");
+    expect(normalizeText("e\u0301", ["nfc"])).toBe("\u00e9");
+  });
+
+  test("normalizeText should run the default or a custom pipeline", () => {
+    expect(normalizeText(`${noise} Hello`, true).trim()).toBe("hello");
+    const shout = {
+      name: "shout",
+      apply: (text: string): string => `${text}!`,
+    };
+    expect(normalizeText("Hi 42", ["digits", shout])).toBe("Hi !");
+    expect(normalizeText("Hi 42")).toBe("Hi 42");
+    expect(resolveNormalization(true)).toHaveLength(
+      DEFAULT_NORMALIZATION.length,
+    );
+    expect(resolveNormalization(["nfc"])).toEqual([normalizationSteps.nfc]);
+    expect(() => resolveNormalization(["bogus"])).toThrow(
+      /Unknown normalization step "bogus"/,
+    );
+  });
+
+  test("detection should ignore noise and report coverage", () => {
+    const guesser = new LanguageGuesser(undefined, { normalization: true });
+    const result = guesser.guessCalibrated(`${noise} ${english}`, [], 1);
+    expect(result.results[0].alpha3).toBe("eng");
+    expect(result.coverage).toBeLessThan(0.7);
+    expect(result.length).toBeLessThan(noise.length + english.length);
+
+    const clean = guesser.guessCalibrated(english, [], 1);
+    expect(clean.coverage).toBeCloseTo(1);
+
+    const onlyNoise = guesser.guessCalibrated(noise, [], 1);
+    expect(onlyNoise.results[0].alpha3).toBe("und");
+    expect(onlyNoise.coverage).toBeLessThan(0.2);
+    expect(guesser.guess(noise, [], 1)[0].alpha3).toBe("und");
+
+    expect(new LanguageGuesser().guessCalibrated(noise).coverage).toBe(1);
+  });
+
+  test("incremental detection should normalize pieces", () => {
+    const guesser = new LanguageGuesser(undefined, { normalization: true });
+    const detector = new IncrementalDetector(guesser, { earlyStop: false });
+    detector.push(`${noise} `);
+    detector.push(english);
+    const result = detector.end();
+    expect(result.results[0].alpha3).toBe("eng");
+    expect(result.coverage).toBeLessThan(0.7);
+    expect(detector.length).toBe(result.length);
+  });
+});
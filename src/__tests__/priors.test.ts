@@ -0,0 +1,95 @@
+import { LanguageGuesser } from "../language";
+import { DISTANCE_TEMPERATURE } from "../confidence";
+import { MIN_PRIOR, applyPriors, estimatePriors } from "../priors";
+
+describe("Priors", () => {
+  test("applyPriors should shift distances by the log of the priors", () => {
+    const distances: [string, number][] = [
+      ["aaa", 100],
+      ["bbb", 110],
+      ["ccc", 500],
+    ];
+    const weighted = applyPriors(distances, { bbb: 0.9 });
+    // A near tie goes to the likelier language, a clear gap does not.
+    expect(weighted.map(([lang]) => lang)).toEqual(["bbb", "aaa", "ccc"]);
+    expect(weighted[0][1]).toBeCloseTo(
+      110 - DISTANCE_TEMPERATURE * Math.log(0.9),
+    );
+    // Unlisted languages share the rest evenly.
+    expect(weighted[1][1]).toBeCloseTo(
+      100 - DISTANCE_TEMPERATURE * Math.log(0.05),
+    );
+    // Priors summing to more than 1 are rescaled; zero priors still count.
+    expect(applyPriors(distances, { aaa: 2, bbb: 2, ccc: 0 })).toEqual([
+      ["aaa", 100 - DISTANCE_TEMPERATURE * Math.log(0.5)],
+      ["bbb", 110 - DISTANCE_TEMPERATURE * Math.log(0.5)],
+      ["ccc", 500 - DISTANCE_TEMPERATURE * Math.log(MIN_PRIOR)],
+    ]);
+  });
+
+  test("applyPriors should scale the shift to the metric", () => {
+    const distances: [string, number][] = [
+      ["aaa", 100],
+      ["bbb", 110],
+    ];
+    expect(applyPriors(distances, { aaa: 0.5, bbb: 0.5 }, 10)).toEqual([
+      ["aaa", 100 - 10 * Math.log(0.5)],
+      ["bbb", 110 - 10 * Math.log(0.5)],
+    ]);
+    expect(applyPriors(distances, { bbb: 0.9 }, 1)[0][0]).toBe("aaa");
+  });
+
+  test("estimatePriors should derive priors from labelled history", () => {
+    const priors = estimatePriors(["eng", "eng", "eng", "spa"], 0.2);
+    expect(priors.eng).toBeCloseTo(0.6);
+    expect(priors.spa).toBeCloseTo(0.2);
+    expect(
+      estimatePriors(
+        [
+          { text: "hello", label: "eng" },
+          { text: "hola", label: "spa" },
+        ],
+        0,
+      ),
+    ).toEqual({ eng: 0.5, spa: 0.5 });
+    expect(() => estimatePriors([])).toThrow("No samples");
+    expect(() => estimatePriors(["eng"], 1)).toThrow("Invalid unseenShare");
+  });
+
+  test("priors should weigh alike under every metric", () => {
+    const text = "Que tal amigo";
+    (["bayes", "cosine"] as const).forEach((metric) => {
+      expect(
+        new LanguageGuesser(undefined, { metric }).guessBest(text).alpha3,
+      ).not.toBe("spa");
+      const guesser = new LanguageGuesser(undefined, {
+        metric,
+        priors: { en: 0.7, es: 0.3 },
+      });
+      expect(guesser.guessBest(text).alpha3).toBe("spa");
+      expect(guesser.guessCalibrated(text).results[0].alpha3).toBe("spa");
+      // Languages left without a share are still found on clear evidence.
+      expect(
+        guesser.guessBest("Der Hund spielt im Garten mit dem Ball.").alpha3,
+      ).toBe("deu");
+    });
+  });
+
+  test("guesses should favour likely languages on short text", () => {
+    const text = "Que tal amigo";
+    expect(new LanguageGuesser().guessBest(text).alpha3).not.toBe("spa");
+    const traffic: Record<string, number>[] = [
+      { eng: 0.7, spa: 0.2 },
+      { en: 0.7, es: 0.2 },
+    ];
+    traffic.forEach((priors) => {
+      const guesser = new LanguageGuesser(undefined, { priors });
+      expect(guesser.guessBest(text).alpha3).toBe("spa");
+      expect(guesser.guessCalibrated(text).results[0].alpha3).toBe("spa");
+      // Clear trigram evidence still wins.
+      expect(
+        guesser.guessBest("Der Hund spielt im Garten mit dem Ball.").alpha3,
+      ).toBe("deu");
+    });
+  });
+});
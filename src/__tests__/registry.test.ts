@@ -0,0 +1,203 @@
+import { LanguageGuesser } from "../language";
+import { createBundledRegistry, ngramsData } from "../bundled";
+import { ModelRegistry, buildModelIndex } from "../registry";
+import { ScriptNotLoadedError } from "../errors";
+
+describe("ModelRegistry", () => {
+  test("should load the bundled packs on demand by default", async () => {
+    const registry = new ModelRegistry();
+    expect(registry.getScripts()).toEqual([]);
+    expect(registry.isLoadable("Latin")).toBe(true);
+    await registry.loadAll();
+    expect(registry.getScripts().sort()).toEqual(
+      Object.keys(ngramsData).sort(),
+    );
+    expect(registry.getModels("Latin")?.eng).toEqual(ngramsData.Latin.eng);
+    expect(registry.has("eng")).toBe(true);
+    expect(registry.has("eng", "Cyrillic")).toBe(false);
+    // Registries given their own models load nothing else.
+    expect(
+      new ModelRegistry({ Latin: { tlh: "qap" } }).isLoadable("Cyrillic"),
+    ).toBe(false);
+  });
+
+  test("should register and remove models", () => {
+    const registry = ModelRegistry.empty();
+    expect(registry.getScripts()).toEqual([]);
+    registry.register("Latin", "tlh", "qap|apl|pla");
+    expect(registry.getModels("Latin")).toEqual({
+      tlh: ["qap", "apl", "pla"],
+    });
+    expect(registry.getLanguages()).toEqual(["tlh"]);
+    expect(registry.remove("tlh")).toBe(true);
+    expect(registry.remove("tlh")).toBe(false);
+    expect(registry.hasScript("Latin")).toBe(false);
+    expect(registry.getModels("Latin")).toBeUndefined();
+  });
+
+  test("should build indexes for a script", () => {
+    const registry = new ModelRegistry({ Latin: { tlh: ["qap", "apl"] } });
+    expect(registry.getIndexes("Latin")).toEqual({ tlh: { qap: 0, apl: 1 } });
+    expect(registry.getIndexes("Cyrillic")).toEqual({});
+  });
+
+  test("buildModelIndex should reuse indexes of the same model", () => {
+    const model = ["abc", "bcd"];
+    expect(buildModelIndex(model)).toBe(buildModelIndex(model));
+  });
+
+  test("clone and clear should not affect the original registry", () => {
+    const registry = createBundledRegistry();
+    const copy = registry.clone();
+    copy.clear();
+    copy.register("Latin", "tlh", ["qap"]);
+    expect(registry.has("tlh")).toBe(false);
+    expect(registry.has("eng")).toBe(true);
+    expect(copy.getLanguages("Latin")).toEqual(["tlh"]);
+    const lazy = ModelRegistry.lazy();
+    lazy.clear();
+    expect(lazy.isLoadable("Latin")).toBe(false);
+  });
+
+  test("every change should increase the revision", () => {
+    const registry = ModelRegistry.empty();
+    const revisions = [registry.getRevision()];
+    registry.register("Latin", "tlh", ["qap"]);
+    revisions.push(registry.getRevision());
+    registry.remove("klingon");
+    registry.remove("tlh");
+    revisions.push(registry.getRevision());
+    registry.registerLexicon("tlh", "qapla");
+    registry.removeLexicon("tlh");
+    registry.clear();
+    revisions.push(registry.getRevision());
+    expect(revisions).toEqual([0, 1, 2, 5]);
+  });
+});
+
+describe("LanguageGuesser with registries", () => {
+  test("instances should not share registered or removed models", () => {
+    const first = new LanguageGuesser();
+    const second = new LanguageGuesser();
+    first.removeModel("spa");
+    const text = "Esta es una oración de ejemplo en español.";
+    expect(first.guessBest(text).alpha3).not.toBe("spa");
+    expect(second.guessBest(text).alpha3).toBe("spa");
+    expect(LanguageGuesser.getDefaultRegistry().has("spa")).toBe(true);
+  });
+
+  test("should score against the registry it is constructed with", () => {
+    const registry = new ModelRegistry({
+      Latin: { eng: ngramsData.Latin.eng, deu: ngramsData.Latin.deu },
+    });
+    const guesser = new LanguageGuesser(registry);
+    const results = guesser.guess("Esta es una oración de ejemplo.", [], 5);
+    expect(results.map((r) => r.alpha3).sort()).toEqual(["deu", "eng"]);
+    expect(
+      guesser.guessMixed("Hello, this is a test. Hallo, das ist ein Test.", []),
+    ).toHaveLength(2);
+  });
+});
+
+describe("ModelRegistry lazy loading", () => {
+  test("should load a bundled pack on demand", async () => {
+    const registry = ModelRegistry.lazy();
+    expect(registry.getScripts()).toEqual([]);
+    expect(registry.isLoadable("Cyrillic")).toBe(true);
+    const [first, second] = await Promise.all([
+      registry.loadScript("Cyrillic"),
+      registry.loadScript("Cyrillic"),
+    ]);
+    expect(first && second).toBe(true);
+    expect(registry.isLoadable("Cyrillic")).toBe(false);
+    expect(registry.getModels("Cyrillic")?.rus).toEqual(
+      ngramsData.Cyrillic.rus,
+    );
+    expect(registry.hasScript("Latin")).toBe(false);
+  });
+
+  test("should report scripts without a loader", async () => {
+    const registry = ModelRegistry.lazy({});
+    expect(registry.isLoadable("Latin")).toBe(false);
+    await expect(registry.loadScript("Latin")).resolves.toBe(false);
+  });
+
+  test("loadAll should load every pack", async () => {
+    const registry = ModelRegistry.lazy();
+    await registry.loadAll();
+    expect(registry.getScripts().sort()).toEqual(
+      Object.keys(ngramsData).sort(),
+    );
+  });
+});
+
+describe("LanguageGuesser with a lazy registry", () => {
+  test("guess should report a script whose pack is not loaded", () => {
+    const guesser = new LanguageGuesser(ModelRegistry.lazy());
+    expect(() => guesser.guess("Это пример предложения на русском.")).toThrow(
+      ScriptNotLoadedError,
+    );
+  });
+
+  test("guessAsync should load the pack the text is routed to", async () => {
+    const registry = ModelRegistry.lazy();
+    const guesser = new LanguageGuesser(registry);
+    const results = await guesser.guessAsync(
+      "Это пример предложения на русском языке.",
+    );
+    expect(results[0].alpha3).toBe("rus");
+    expect(registry.getScripts()).toEqual(["Cyrillic"]);
+    expect(await guesser.guessAsync("")).toEqual(guesser.guess(""));
+  });
+});
+
+describe("Default registry", () => {
+  test("should hold every bundled model without loading packs", async () => {
+    await jest.isolateModulesAsync(async () => {
+      const { LanguageGuesser: Guesser } = await import("../language");
+      expect(new Guesser().guess("This is a sample sentence.")[0].alpha3).toBe(
+        "eng",
+      );
+      expect(
+        new Guesser().guessBest("Это пример предложения на русском языке.")
+          .alpha3,
+      ).toBe("rus");
+      expect(
+        Guesser.detectAll("Это пример предложения на русском языке.")[0][0],
+      ).toBe("rus");
+      expect(Guesser.getDefaultRegistry().getScripts().sort()).toEqual(
+        Object.keys(ngramsData).sort(),
+      );
+    });
+  });
+
+  test("a lazy default registry should load packs on demand", async () => {
+    const original = LanguageGuesser.getDefaultRegistry();
+    try {
+      LanguageGuesser.setDefaultRegistry(ModelRegistry.lazy());
+      const guesser = new LanguageGuesser();
+      expect(() => guesser.guess("This is a sample sentence.")).toThrow(
+        ScriptNotLoadedError,
+      );
+      await guesser.registry.loadScript("Latin");
+      expect(guesser.guess("This is a sample sentence.")[0].alpha3).toBe("eng");
+    } finally {
+      LanguageGuesser.setDefaultRegistry(original);
+    }
+  });
+
+  test("new instances should copy the default registry", () => {
+    const original = LanguageGuesser.getDefaultRegistry();
+    const registry = ModelRegistry.empty();
+    registry.register("Latin", "tlh", "qap|apl|pla");
+    try {
+      LanguageGuesser.setDefaultRegistry(registry);
+      const guesser = new LanguageGuesser();
+      expect(guesser.registry).not.toBe(registry);
+      expect(guesser.registry.getLanguages()).toEqual(["tlh"]);
+      expect(LanguageGuesser.detectAll("qapla qapla qapla")[0][0]).toBe("tlh");
+    } finally {
+      LanguageGuesser.setDefaultRegistry(original);
+    }
+  });
+});
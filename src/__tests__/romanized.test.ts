@@ -0,0 +1,64 @@
+import { LanguageGuesser } from "../language";
+import { ModelRegistry } from "../registry";
+import { ScriptNotLoadedError } from "../errors";
+import { ROMANIZED_FAMILY, getModelFamilies } from "../romanized";
+
+const samples: [string, string, string][] = [
+  ["Mujhe samajh nahi aa raha ki kya karun yaar", "hin", "hi-Latn"],
+  ["ya habibi enta wa7ashtni kteer wallah, shu 3am ta3mel?", "arb", "ar-Latn"],
+  ["Chto sluchilos? Pochemu ty ne otvechaesh mne?", "rus", "ru-Latn"],
+  ["Den mporo na erthw simera, exo poli douleia", "ell", "el-Latn"],
+];
+const english =
+  "This is a test and is basically my life. I would like to know what you think about it.";
+
+describe("Romanized languages", () => {
+  test("getModelFamilies should add the romanized models to Latin text", () => {
+    expect(getModelFamilies("Latin", {})).toEqual(["Latin"]);
+    expect(getModelFamilies("Latin", { romanized: true })).toEqual([
+      "Latin",
+      ROMANIZED_FAMILY,
+    ]);
+    expect(getModelFamilies("Cyrillic", { romanized: true })).toEqual([
+      "Cyrillic",
+    ]);
+  });
+
+  test("should detect romanized text with Latin script tags", () => {
+    const guesser = new LanguageGuesser(undefined, { romanized: true });
+    samples.forEach(([text, alpha3, tag]) => {
+      const [top] = guesser.detect(text);
+      expect(top.alpha3).toBe(alpha3);
+      expect(top.script).toBe("Latin");
+      expect(top.tag).toBe(tag);
+      expect(guesser.guessCalibrated(text).results[0].alpha3).toBe(alpha3);
+    });
+    expect(guesser.guessBest(english).alpha3).toBe("eng");
+    expect(guesser.explain(samples[0][0]).candidates[0].matched).not.toEqual(
+      [],
+    );
+  });
+
+  test("should be off by default", () => {
+    const guesser = new LanguageGuesser();
+    samples.forEach(([text, alpha3]) =>
+      expect(guesser.guessBest(text).alpha3).not.toBe(alpha3),
+    );
+    // Native-script text is unaffected by the setting.
+    expect(
+      new LanguageGuesser(undefined, { romanized: true }).guessBest(
+        "Это пример предложения на русском языке.",
+      ).alpha3,
+    ).toBe("rus");
+  });
+
+  test("lazy registries should load the romanized pack on demand", async () => {
+    const registry = ModelRegistry.lazy();
+    const guesser = new LanguageGuesser(registry, { romanized: true });
+    await registry.loadScript("Latin");
+    expect(() => guesser.guess(samples[0][0])).toThrow(ScriptNotLoadedError);
+    const results = await guesser.guessAsync(samples[0][0]);
+    expect(results[0].alpha3).toBe("hin");
+    expect(registry.getScripts().sort()).toEqual(["Latin", ROMANIZED_FAMILY]);
+  });
+});
@@ -0,0 +1,26 @@
+import { DEFAULT_SAMPLE_LENGTH, sampleText } from "../sampling";
+
+describe("sampleText", () => {
+  const text = "abcdefghij".repeat(500);
+
+  test("should keep the head by default", () => {
+    expect(sampleText(text)).toBe(text.substring(0, DEFAULT_SAMPLE_LENGTH));
+    expect(sampleText("short")).toBe("short");
+  });
+
+  test("should keep the whole text with the full strategy", () => {
+    expect(sampleText(text, { strategy: "full" })).toBe(text);
+  });
+
+  test("should join evenly spaced slices with the spread strategy", () => {
+    const sample = sampleText("0123456789".repeat(10), {
+      strategy: "spread",
+      maxLength: 30,
+      slices: 3,
+    });
+    expect(sample).toBe("0123456789 5678901234 0123456789");
+    expect(
+      sampleText(text, { strategy: "spread", maxLength: 20, slices: 1 }),
+    ).toBe(text.substring(0, 20));
+  });
+});
@@ -0,0 +1,85 @@
+import { LanguageGuesser } from "../language";
+import { ModelRegistry } from "../registry";
+import {
+  detectScriptLanguages,
+  getScriptPurity,
+  scriptLanguages,
+} from "../script-languages";
+import { scripts } from "../regex";
+
+const bengali =
+  "বাংলা ভাষা বাংলাদেশের রাষ্ট্রভাষা এবং ভারতের পশ্চিমবঙ্গ রাজ্যের সরকারি ভাষা।";
+const assamese = "অসমীয়া ভাষা অসমৰ প্ৰধান ভাষা। ই ভাৰতৰ এটা চৰকাৰী ভাষা।";
+const burmese = "မြန်မာဘာသာစကားသည် မြန်မာနိုင်ငံ၏ ရုံးသုံးဘာသာစကား ဖြစ်သည်။";
+const shan = "ၵႂၢမ်းတႆး ပဵၼ်ၵႂၢမ်းဢၼ်ၵူၼ်းတႆး ၸႂ်ႉတိုဝ်းယူႇ ၼႂ်းမိူင်းတႆး";
+const tibetan = "བོད་ཀྱི་སྐད་ཡིག་ནི་བོད་མིའི་སྐད་ཡིག་ཡིན།";
+const amharic = "ኢትዮጵያ በአፍሪካ ቀንድ የምትገኝ ሀገር ናት። ዋና ከተማዋ አዲስ አበባ ነው።";
+
+describe("Script languages", () => {
+  test("every script with candidates should be a known script", () => {
+    Object.keys(scriptLanguages).forEach((script) =>
+      expect(scripts[script]).toBeDefined(),
+    );
+  });
+
+  test("getScriptPurity should measure the share of the script", () => {
+    expect(getScriptPurity("Καλημέρα κόσμε", "ell")).toBe(1);
+    expect(getScriptPurity("Καλημέρα world", "ell")).toBeCloseTo(8 / 13);
+    expect(getScriptPurity("123 !", "ell")).toBe(0);
+    expect(getScriptPurity("Καλημέρα", "unknown")).toBe(0);
+  });
+
+  test("detectScriptLanguages should resolve scripts to languages", () => {
+    expect(detectScriptLanguages("Καλημέρα κόσμε", "ell")).toEqual([
+      ["ell", 1],
+    ]);
+    // Scores follow the purity of the script.
+    const [[lang, score]] = detectScriptLanguages("Καλημέρα world", "ell");
+    expect(lang).toBe("ell");
+    expect(score).toBeCloseTo(8 / 13);
+    expect(detectScriptLanguages("Καλημέρα", "Latin")).toEqual([]);
+  });
+
+  test("detectScriptLanguages should tell languages sharing a script apart", () => {
+    expect(detectScriptLanguages(bengali, "ben")[0][0]).toBe("ben");
+    expect(detectScriptLanguages(assamese, "ben")[0][0]).toBe("asm");
+    expect(detectScriptLanguages(burmese, "Myanmar")).toEqual([["mya", 1]]);
+    expect(detectScriptLanguages(shan, "Myanmar")[0][0]).toBe("shn");
+    // Without markers, every candidate is listed with the same score.
+    expect(detectScriptLanguages(tibetan, "bod")).toEqual([
+      ["bod", 0.5],
+      ["dzo", 0.5],
+    ]);
+  });
+
+  test("guessers should report script languages", () => {
+    const guesser = new LanguageGuesser();
+    expect(guesser.guessBest(assamese).alpha3).toBe("asm");
+    expect(guesser.guessBest(shan).language).toBe("Shan");
+    expect(guesser.guessBest(bengali, ["as"]).alpha3).toBe("und");
+    expect(guesser.guess(tibetan, [], 2, ["dz"])).toEqual([
+      { alpha3: "bod", alpha2: "bo", language: "Tibetan", score: 0.5 },
+    ]);
+    expect(guesser.guess("ܫܠܡܐ ܥܠܘܟܘܢ ܐܝܟܢܐ ܝܘܬܘܢ")[0].alpha3).toBe("aii");
+    const ambiguous = guesser.guessCalibrated(tibetan);
+    expect(ambiguous.margin).toBe(0);
+    expect(ambiguous.isReliable).toBe(false);
+    const greek = LanguageGuesser.detectCalibrated(
+      "Αυτή είναι μια πρόταση στα ελληνικά με λίγα English words.",
+    );
+    expect(greek.probabilities).toEqual([["ell", 1]]);
+    expect(greek.missRatio).toBeGreaterThan(0.2);
+  });
+
+  test("registries without a script's models should list its languages", () => {
+    expect(LanguageGuesser.detectAll(amharic)[0][0]).toBe("amh");
+    expect(
+      LanguageGuesser.detectAll(amharic, {}, ModelRegistry.empty()),
+    ).toEqual([
+      ["amh", 0.25],
+      ["tir", 0.25],
+      ["tig", 0.25],
+      ["gez", 0.25],
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+import { LanguageGuesser } from "../language";
+import {
+  buildWindows,
+  mergeCells,
+  smoothCells,
+  snapToWords,
+  voteCells,
+} from "../segmentation";
+
+const range = (
+  start: number,
+  end: number,
+  label: string,
+  confidence = 1,
+): { start: number; end: number; label: string; confidence: number } => ({
+  start,
+  end,
+  label,
+  confidence,
+});
+
+describe("Segmentation", () => {
+  test("buildWindows should cover the text and align the last window", () => {
+    expect(buildWindows(0)).toEqual([]);
+    expect(buildWindows(30, 40, 20)).toEqual([[0, 30]]);
+    expect(buildWindows(90, 40, 20)).toEqual([
+      [0, 40],
+      [20, 60],
+      [40, 80],
+      [50, 90],
+    ]);
+  });
+
+  test("voteCells should label cells by weighted vote", () => {
+    const cells = voteCells([
+      range(0, 40, "spa", 0.9),
+      range(20, 60, "eng", 0.5),
+    ]);
+    expect(cells).toEqual([
+      range(0, 20, "spa", 0.9),
+      range(20, 40, "spa", 0.45),
+      range(40, 60, "eng", 0.5),
+    ]);
+  });
+
+  test("smoothCells should relabel isolated flips", () => {
+    const cells = smoothCells([
+      range(0, 20, "spa", 0.8),
+      range(20, 40, "glg", 0.4),
+      range(40, 60, "spa", 0.6),
+      range(60, 80, "eng"),
+    ]);
+    expect(cells.map((c) => c.label)).toEqual(["spa", "spa", "spa", "eng"]);
+    expect(cells[1].confidence).toBeCloseTo(0.7);
+  });
+
+  test("mergeCells should merge adjacent cells with the same label", () => {
+    expect(
+      mergeCells([
+        range(0, 20, "spa", 1),
+        range(20, 60, "spa", 0.4),
+        range(60, 80, "eng"),
+      ]),
+    ).toEqual([range(0, 60, "spa", 0.6), range(60, 80, "eng")]);
+  });
+
+  test("snapToWords should prefer sentence breaks, then whitespace", () => {
+    const text = "Hola amigo. Hello my friend";
+    expect(
+      snapToWords(text, [range(0, 15, "spa"), range(15, 27, "eng")], 6).map(
+        (r) => text.substring(r.start, r.end),
+      ),
+    ).toEqual(["Hola amigo. ", "Hello my friend"]);
+    expect(
+      snapToWords("abc defgh", [range(0, 5, "a"), range(5, 9, "b")], 3)[1]
+        .start,
+    ).toBe(4);
+    expect(
+      snapToWords("abcdefgh", [range(0, 4, "a"), range(4, 8, "b")], 2)[1].start,
+    ).toBe(4);
+  });
+});
+
+describe("LanguageGuesser.segment", () => {
+  let guesser: LanguageGuesser;
+
+  beforeEach(() => {
+    guesser = new LanguageGuesser();
+  });
+
+  test("should return contiguous spans with offsets and languages", () => {
+    const text =
+      "Der schnelle braune Fuchs springt über den faulen Hund und läuft weg. " +
+      "The quick brown fox jumps over the lazy dog and runs away.";
+    const segments = guesser.segment(text, ["deu", "eng"]);
+    expect(segments.map((s) => s.alpha3)).toEqual(["deu", "eng"]);
+    expect(segments[0].start).toBe(0);
+    expect(segments[0].end).toBe(segments[1].start);
+    expect(segments[1].end).toBe(text.length);
+    expect(segments[1].text).toBe(
+      "The quick brown fox jumps over the lazy dog and runs away.",
+    );
+    expect(segments[0].score).toBeGreaterThan(0.5);
+  });
+
+  test("should return a single span for short or empty text", () => {
+    expect(guesser.segment("")).toEqual([]);
+    const [segment] = guesser.segment("Hi there");
+    expect(segment).toMatchObject({ alpha3: "und", start: 0, end: 8 });
+  });
+
+  test("should honour segmentation options", () => {
+    const text = "Esta es una prueba. ".repeat(6);
+    const segments = guesser.segment(text, ["spa", "eng"], {
+      windowSize: 30,
+      stepSize: 10,
+      smoothing: false,
+    });
+    expect(segments).toHaveLength(1);
+    expect(segments[0].alpha3).toBe("spa");
+  });
+});
@@ -0,0 +1,93 @@
+import { LanguageGuesser } from "../language";
+import { toLanguageTag } from "../tags";
+
+describe("BCP 47 tags", () => {
+  test("toLanguageTag should combine the shortest code with the script subtag", () => {
+    expect(toLanguageTag({ alpha2: "sr", alpha3: "srp" }, "Cyrillic")).toBe(
+      "sr-Cyrl",
+    );
+    expect(toLanguageTag({ alpha2: "", alpha3: "fuv" }, "Latin")).toBe(
+      "fuv-Latn",
+    );
+    expect(toLanguageTag({ alpha2: "zh", alpha3: "cmn" }, "cmn")).toBe(
+      "zh-Hani",
+    );
+    expect(toLanguageTag({ alpha2: "en", alpha3: "eng" }, "und")).toBe("en");
+    expect(toLanguageTag({ alpha2: "", alpha3: "und" }, "Latin")).toBe("und");
+  });
+});
+
+describe("LanguageGuesser.detect", () => {
+  const guesser = new LanguageGuesser();
+
+  test("should tag Serbian in Cyrillic and Latin differently", () => {
+    const cyrillic = guesser.detect(
+      "Сва људска бића рађају се слободна и једнака у достојанству и правима.",
+      { allowList: ["sr"], limit: 1 },
+    );
+    const latin = guesser.detect(
+      "Sva ljudska bića rađaju se slobodna i jednaka u dostojanstvu i pravima.",
+      { allowList: ["sr"], limit: 1 },
+    );
+    expect(cyrillic[0]).toMatchObject({
+      alpha3: "srp",
+      script: "Cyrillic",
+      tag: "sr-Cyrl",
+    });
+    expect(latin[0]).toMatchObject({
+      alpha3: "srp",
+      script: "Latin",
+      tag: "sr-Latn",
+    });
+  });
+
+  test("should apply allow list, deny list and limit", () => {
+    const text = "Esta es una prueba para detectar el idioma del texto.";
+    const [best] = guesser.detect(text, { limit: 1 });
+    expect(best.tag).toBe("es-Latn");
+    const results = guesser.detect(text, { denyList: ["es"], limit: 2 });
+    expect(results).toHaveLength(2);
+    expect(results.map((r) => r.alpha3)).not.toContain("spa");
+  });
+
+  test("should tag scripts without models and undetermined text", () => {
+    expect(guesser.detect("Αυτό είναι ένα κείμενο στα ελληνικά.")[0].tag).toBe(
+      "el-Grek",
+    );
+    expect(guesser.detect("")[0]).toMatchObject({ alpha3: "und", tag: "und" });
+  });
+
+  test("should aggregate mixed-language text", () => {
+    const results = guesser.detect(
+      "Hello, this is a test. Hola, esto es una prueba.",
+      { allowList: ["eng", "spa"], mixed: true, limit: 2 },
+    );
+    expect(results.map((r) => r.tag)).toEqual(["es-Latn", "en-Latn"]);
+    const denied = guesser.detect(
+      "Hello, this is a test. Hola, esto es una prueba.",
+      { allowList: ["eng", "spa"], denyList: ["spa"], mixed: true },
+    );
+    expect(denied.map((r) => r.alpha3)).toEqual(["eng"]);
+  });
+
+  test("should fall back to und when no segment is determined", () => {
+    const mixed = guesser.detect("12345 67890 12345. 09876 54321 09876.", {
+      mixed: true,
+    });
+    expect(mixed).toHaveLength(1);
+    expect(mixed[0]).toMatchObject({ alpha3: "und", tag: "und", score: 0 });
+    const partial = guesser.detect(
+      "12345 67890 12345. Esta es una prueba para detectar el idioma del texto.",
+      { mixed: true, limit: 10 },
+    );
+    expect(partial[0].alpha3).toBe("spa");
+    expect(partial.map((r) => r.alpha3)).not.toContain("und");
+    expect(guesser.guessMixed("").map((r) => r.alpha3)).toEqual(["und"]);
+  });
+
+  test("guessBest should honour the deny list", () => {
+    const text = "Esta es una prueba para detectar el idioma del texto.";
+    expect(guesser.guessBest(text).alpha3).toBe("spa");
+    expect(guesser.guessBest(text, [], ["spa"]).alpha3).not.toBe("spa");
+  });
+});
@@ -0,0 +1,72 @@
+import { LanguageGuesser } from "../language";
+import { parseNgramValue } from "../ngrams";
+import {
+  DEFAULT_PROFILE_SIZE,
+  serializeProfile,
+  trainModels,
+  trainProfile,
+} from "../training";
+
+const klingonish =
+  "qapla batlh tlhingan maH qapla batlh tlhingan ghom qapla jIH batlh qaStaH";
+
+describe("Training", () => {
+  test("trainProfile should rank trigrams by frequency", () => {
+    const profile = trainProfile("aaaa aaaa ab");
+    expect(profile[0]).toBe("aaa");
+    expect(profile).toContain(" ab");
+  });
+
+  test("trainProfile should merge documents and respect the size limit", () => {
+    const profile = trainProfile(["hello world", "hello there"], 2);
+    expect(profile).toHaveLength(2);
+    expect(profile).toEqual([" he", "ell"]);
+    expect(trainProfile(klingonish).length).toBeLessThanOrEqual(
+      DEFAULT_PROFILE_SIZE,
+    );
+  });
+
+  test("serializeProfile should produce a pipe-separated string", () => {
+    const serialized = serializeProfile(["abc", "bcd"]);
+    expect(serialized).toBe("abc|bcd");
+    expect(parseNgramValue(serialized)).toEqual(["abc", "bcd"]);
+  });
+
+  test("trainModels should return models grouped by script", () => {
+    const models = trainModels({ Latin: { tlh: klingonish } });
+    expect(Object.keys(models)).toEqual(["Latin"]);
+    expect(typeof models.Latin.tlh).toBe("string");
+  });
+});
+
+describe("LanguageGuesser model registration", () => {
+  test("should detect a registered language alongside the bundled ones", () => {
+    const guesser = new LanguageGuesser();
+    guesser.registerModel("Latin", "tlh", trainProfile(klingonish), {
+      name: "Klingon",
+    });
+    const result = guesser.guessBest("qapla batlh tlhingan maH");
+    expect(result.alpha3).toBe("tlh");
+    expect(result.language).toBe("Klingon");
+    expect(guesser.guessBest("This is a sentence in English.").alpha3).toBe(
+      "eng",
+    );
+  });
+
+  test("should replace the bundled models when requested", () => {
+    const guesser = new LanguageGuesser();
+    guesser.registerModels(
+      trainModels({ Latin: { tlh: klingonish, eng: "the quick brown fox" } }),
+      true,
+    );
+    const results = guesser.guess("Esta es una prueba en español.", [], 5);
+    expect(results.every((r) => ["tlh", "eng"].includes(r.alpha3))).toBe(true);
+  });
+
+  test("should not affect static detection", () => {
+    const guesser = new LanguageGuesser();
+    guesser.registerModel("Latin", "tlh", trainProfile(klingonish));
+    const result = LanguageGuesser.detectAll("qapla batlh tlhingan maH");
+    expect(result.map(([lang]) => lang)).not.toContain("tlh");
+  });
+});
@@ -0,0 +1,137 @@
+import { Worker } from "node:worker_threads";
+import { LanguageGuesser } from "./language.js";
+import { encodeModels } from "./binary.js";
+import { IDetectionSettings } from "./interfaces/IDetectionSettings.js";
+import { ILanguageData } from "./interfaces/ILanguageData.js";
+import { IBatchResult } from "./interfaces/IBatchResult.js";
+import { BatchChunk, BatchGuessOptions } from "./batch.js";
+import { defaultWorkerScript } from "./worker-locator.js";
+
+// Everything a worker needs to rebuild the guesser of the main thread.
+// Models are binary model data in shared memory (see `encodeModels`), so
+// workers neither copy them nor build their lookup indexes.
+export type BatchWorkerData = {
+  models: SharedArrayBuffer;
+  lexicons: Record<string, string[]>;
+  languages: ILanguageData[];
+  settings: IDetectionSettings;
+  options: BatchGuessOptions;
+};
+
+/**
+ * Encodes the models of a guesser into shared memory.
+ * @param guesser Language guesser, with every pack loaded.
+ * @returns Binary model data in a shared buffer.
+ */
+function shareModels(guesser: LanguageGuesser): SharedArrayBuffer {
+  const { registry } = guesser;
+  const data = encodeModels(
+    Object.fromEntries(
+      registry
+        .getScripts()
+        .map((script) => [script, registry.getModels(script)!]),
+    ),
+  );
+  const shared = new SharedArrayBuffer(data.byteLength);
+  new Uint8Array(shared).set(data);
+  return shared;
+}
+
+/**
+ * Sends a chunk to a worker and waits for its results.
+ * @param worker Worker thread.
+ * @param chunk Texts to analyze.
+ * @returns Results, or the message of the error that stopped the worker.
+ */
+function runChunk(
+  worker: Worker,
+  chunk: BatchChunk,
+): Promise<IBatchResult[] | string> {
+  return new Promise((resolve) => {
+    const settle = (value: IBatchResult[] | string): void => {
+      worker.off("message", settle);
+      worker.off("error", onError);
+      worker.off("exit", onExit);
+      resolve(value);
+    };
+    const onError = (error: Error): void => settle(error.message);
+    const onExit = (code: number): void =>
+      settle(`Batch worker exited with code ${code}.`);
+    worker.on("message", settle);
+    worker.on("error", onError);
+    worker.on("exit", onExit);
+    worker.postMessage(chunk);
+  });
+}
+
+/**
+ * Guesses the languages of chunks of texts across worker threads. Each
+ * worker rebuilds the guesser once, over models shared with every other
+ * worker, and reuses it for every chunk it receives.
+ * @param guesser Language guesser, with every pack loaded.
+ * @param chunks Chunks of texts, in input order.
+ * @param workers Number of worker threads.
+ * @param options Guess options.
+ * @param workerScript (Optional) Script run by each worker.
+ * @returns One result per text, in input order.
+ * @throws {Error} If the models cannot be encoded (see `encodeModels`), or
+ * if the settings cannot be sent to worker threads (e.g. custom metrics or
+ * normalization steps).
+ */
+export async function runWorkers(
+  guesser: LanguageGuesser,
+  chunks: AsyncIterable<BatchChunk>,
+  workers: number,
+  options: BatchGuessOptions,
+  workerScript?: string | URL,
+): Promise<IBatchResult[]> {
+  const workerData: BatchWorkerData = {
+    models: shareModels(guesser),
+    lexicons: guesser.registry.getLexicons(),
+    languages: guesser.getLanguages(),
+    // Hooks cannot reach worker threads; workers report nothing.
+    settings: { ...guesser.defaultSettings, instrumentation: undefined },
+    options,
+  };
+  const script = workerScript ?? defaultWorkerScript();
+  const results: IBatchResult[] = [];
+  const pool = new Set<Worker>();
+  const spawn = (): Worker => {
+    const worker = new Worker(script, { workerData });
+    // Errors are reported by `runChunk` while a chunk is pending; this
+    // listener keeps an idle worker's error from crashing the process.
+    worker.on("error", () => undefined);
+    pool.add(worker);
+    return worker;
+  };
+
+  // Each worker pulls the next chunk as soon as it is free; the generator
+  // queues concurrent calls, so every chunk goes to a single worker.
+  const drain = async (): Promise<void> => {
+    let worker = spawn();
+    for await (const chunk of chunks) {
+      const outcome = await runChunk(worker, chunk);
+      if (typeof outcome === "string") {
+        // Only this chunk fails; a fresh worker takes the next one.
+        chunk.texts.forEach((_, i) =>
+          results.push({
+            index: chunk.start + i,
+            results: [],
+            error: outcome,
+          }),
+        );
+        pool.delete(worker);
+        await worker.terminate();
+        worker = spawn();
+      } else {
+        results.push(...outcome);
+      }
+    }
+  };
+  try {
+    await Promise.all(Array.from({ length: workers }, drain));
+  } finally {
+    await Promise.all([...pool].map((worker) => worker.terminate()));
+  }
+  return results.sort((a, b) => a.index - b.index);
+}
@@ -0,0 +1,19 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { LanguageGuesser } from "./language.js";
+import { ModelRegistry } from "./registry.js";
+import { BatchChunk, guessChunk } from "./batch.js";
+import { BatchWorkerData } from "./batch-threads.js";
+
+// Worker thread entry point of `LanguageGuesser.guessBatch`: rebuilds the
+// guesser of the main thread, then answers each chunk with its results.
+const { models, lexicons, languages, settings, options } =
+  workerData as BatchWorkerData;
+const guesser = new LanguageGuesser(
+  ModelRegistry.fromBinary(new Uint8Array(models), lexicons),
+  settings,
+);
+languages.forEach((language) => guesser.registerLanguage(language));
+
+parentPort?.on("message", (chunk: BatchChunk) => {
+  parentPort?.postMessage(guessChunk(guesser, chunk, options));
+});
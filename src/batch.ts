@@ -0,0 +1,112 @@
+import { LanguageGuesser } from "./language.js";
+import { IBatchOptions } from "./interfaces/IBatchOptions.js";
+import { IBatchResult } from "./interfaces/IBatchResult.js";
+
+// Number of texts sent to a worker at a time.
+export const DEFAULT_BATCH_CHUNK_SIZE = 256;
+
+// Consecutive texts of a batch, starting at position `start` of the input.
+export type BatchChunk = { start: number; texts: string[] };
+
+// Guess options applied to every text of a batch.
+export type BatchGuessOptions = {
+  allowList: string[];
+  denyList: string[];
+  limit: number;
+};
+
+/**
+ * Guesses the languages of a chunk of texts. A text that fails is reported
+ * with its error instead of failing the whole chunk.
+ * @param guesser Language guesser.
+ * @param chunk Texts and position of the first one in the input.
+ * @param options Guess options.
+ * @returns One result per text, in order.
+ */
+export function guessChunk(
+  guesser: LanguageGuesser,
+  { start, texts }: BatchChunk,
+  { allowList, denyList, limit }: BatchGuessOptions,
+): IBatchResult[] {
+  return texts.map((text, i) => {
+    try {
+      return {
+        index: start + i,
+        results: guesser.guess(text, allowList, limit, denyList),
+      };
+    } catch (error) {
+      return { index: start + i, results: [], error: (error as Error).message };
+    }
+  });
+}
+
+/**
+ * Groups texts into chunks.
+ * @param texts Texts, from an array, iterable or async iterable.
+ * @param size Number of texts per chunk.
+ * @returns Chunks, in input order.
+ */
+async function* toChunks(
+  texts: Iterable<string> | AsyncIterable<string>,
+  size: number,
+): AsyncGenerator<BatchChunk> {
+  let chunk: BatchChunk = { start: 0, texts: [] };
+  for await (const text of texts) {
+    chunk.texts.push(text);
+    if (chunk.texts.length === size) {
+      yield chunk;
+      chunk = { start: chunk.start + size, texts: [] };
+    }
+  }
+  if (chunk.texts.length > 0) yield chunk;
+}
+
+/**
+ * Guesses the languages of many texts, on the current thread or across
+ * worker threads (see `runWorkers`).
+ * @param guesser Language guesser.
+ * @param texts Texts, from an array, iterable or async iterable.
+ * @param options (Optional) Batch options.
+ * @returns One result per text, in input order.
+ * @throws {Error} If `workers` or `chunkSize` is invalid, or if the settings
+ * cannot be sent to worker threads (e.g. custom metrics or normalization steps).
+ */
+export async function runBatch(
+  guesser: LanguageGuesser,
+  texts: Iterable<string> | AsyncIterable<string>,
+  options: IBatchOptions = {},
+): Promise<IBatchResult[]> {
+  const { workers = 0, chunkSize = DEFAULT_BATCH_CHUNK_SIZE } = options;
+  if (!Number.isInteger(workers) || workers < 0) {
+    throw new Error("Invalid workers. Expected a non-negative integer.");
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize < 1) {
+    throw new Error("Invalid chunkSize. Expected a positive integer.");
+  }
+  const guessOptions: BatchGuessOptions = {
+    allowList: options.allowList ?? [],
+    denyList: options.denyList ?? [],
+    limit: options.limit ?? 3,
+  };
+  // Texts are guessed synchronously, so every pack must be available.
+  await guesser.registry.loadAll();
+
+  const chunks = toChunks(texts, chunkSize);
+  const results: IBatchResult[] = [];
+  if (workers === 0) {
+    for await (const chunk of chunks) {
+      results.push(...guessChunk(guesser, chunk, guessOptions));
+    }
+    return results;
+  }
+
+  // Worker threads are Node-only, so they are loaded only when requested.
+  const { runWorkers } = await import("./batch-threads.js");
+  return runWorkers(
+    guesser,
+    chunks,
+    workers,
+    guessOptions,
+    options.workerScript,
+  );
+}
@@ -0,0 +1,267 @@
+import { NgramValue, parseNgramValue } from "./ngrams.js";
+import {
+  IBinaryModelIndex,
+  ModelIndex,
+} from "./interfaces/IBinaryModelIndex.js";
+
+export type { ModelIndex } from "./interfaces/IBinaryModelIndex.js";
+
+// Signature at the start of binary model data: "FLGM" in ASCII.
+const MAGIC = [0x46, 0x4c, 0x47, 0x4d];
+
+// Version of the binary model format written by `encodeModels`.
+export const BINARY_MODEL_VERSION = 1;
+
+// Ranks are stored as 16-bit integers.
+const MAX_MODEL_SIZE = 0xffff;
+
+// Typed arrays are read in place when the platform byte order matches the format's.
+const LITTLE_ENDIAN = new Uint8Array(new Uint16Array([1]).buffer)[0] === 1;
+
+// Highest share of occupied slots in a binary index, so probes stay short
+// and every table keeps an empty slot.
+const MAX_LOAD = 0.6;
+
+// FNV-1a parameters for 32-bit hashes.
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+// A model read from binary data, with the index stored alongside it.
+export type BinaryModel = { trigrams: string[]; index: IBinaryModelIndex };
+
+// Header entry: script, language, number of index slots, and byte length of the trigram text.
+type HeaderEntry = [string, string, number, number];
+
+/**
+ * Hashes a trigram with 32-bit FNV-1a over its UTF-16 code units.
+ * @param trigram Trigram.
+ * @returns Unsigned 32-bit hash, never 0 (0 marks empty index slots).
+ */
+export function hashTrigram(trigram: string): number {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < trigram.length; i++) {
+    hash ^= trigram.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME);
+  }
+  return hash >>> 0 || 1;
+}
+
+/**
+ * Builds an open-addressing hash table (linear probing) over a model's
+ * trigrams. Trigrams sharing a hash take separate slots; a trigram listed
+ * twice keeps its better rank.
+ * @param trigrams Trigrams, in rank order.
+ * @param hashes Their hashes.
+ * @returns Hash table of trigram hashes and their ranks.
+ */
+function indexHashes(
+  trigrams: string[],
+  hashes: ArrayLike<number>,
+): IBinaryModelIndex {
+  let size = 1;
+  while (size * MAX_LOAD < hashes.length) size *= 2;
+  const table = new Uint32Array(size);
+  const ranks = new Uint16Array(size);
+  for (let rank = 0; rank < hashes.length; rank++) {
+    const hash = hashes[rank];
+    let slot = hash & (size - 1);
+    while (
+      table[slot] !== 0 &&
+      (table[slot] !== hash || trigrams[ranks[slot]] !== trigrams[rank])
+    ) {
+      slot = (slot + 1) & (size - 1);
+    }
+    if (table[slot] === 0) {
+      table[slot] = hash;
+      ranks[slot] = rank;
+    }
+  }
+  return { hashes: table, ranks, trigrams };
+}
+
+/**
+ * Builds the binary index of a model.
+ * @param model N-gram model.
+ * @returns Hash table of trigram hashes and their ranks.
+ * @throws {Error} If the model has more trigrams than ranks can store.
+ */
+export function buildBinaryIndex(model: string[]): IBinaryModelIndex {
+  if (model.length > MAX_MODEL_SIZE) {
+    throw new Error(
+      `Model too large for the binary format: ${model.length} trigrams, at most ${MAX_MODEL_SIZE}.`,
+    );
+  }
+  return indexHashes(model, model.map(hashTrigram));
+}
+
+/**
+ * Checks whether a model index is a binary index.
+ * @param index Model index.
+ * @returns True for a binary index.
+ */
+function isBinaryIndex(index: ModelIndex): index is IBinaryModelIndex {
+  return ArrayBuffer.isView((index as IBinaryModelIndex).hashes);
+}
+
+/**
+ * Returns the rank of a trigram in a model.
+ * @param index Model index, plain or binary.
+ * @param trigram Trigram.
+ * @returns Rank, or undefined if the model lacks the trigram.
+ */
+export function lookupRank(
+  index: ModelIndex,
+  trigram: string,
+): number | undefined {
+  if (!isBinaryIndex(index)) return index[trigram];
+  const { hashes, ranks, trigrams } = index;
+  const mask = hashes.length - 1;
+  const hash = hashTrigram(trigram);
+  for (let slot = hash & mask; hashes[slot] !== 0; slot = (slot + 1) & mask) {
+    // Hashes only narrow the search: colliding trigrams are told apart here.
+    if (hashes[slot] === hash && trigrams[ranks[slot]] === trigram) {
+      return ranks[slot];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Rounds a byte length up to a multiple of 4, so typed arrays stay aligned.
+ * @param length Byte length.
+ * @returns Padded length.
+ */
+function pad(length: number): number {
+  return Math.ceil(length / 4) * 4;
+}
+
+/**
+ * Encodes models in the binary format: a JSON header listing the models,
+ * then, for each model, its index (hash table slots as 32-bit hashes, then
+ * 16-bit ranks) and its pipe-separated trigrams. Numbers are little-endian
+ * and each section starts at a multiple of 4 bytes.
+ * @param models N-gram models as models[script][lang].
+ * @returns Binary model data.
+ * @throws {Error} If a model is too large or a trigram contains "|".
+ */
+export function encodeModels(
+  models: Record<string, Record<string, NgramValue>>,
+): Uint8Array {
+  const encoder = new TextEncoder();
+  const header: HeaderEntry[] = [];
+  const blocks: { index: IBinaryModelIndex; text: Uint8Array }[] = [];
+  for (const script in models) {
+    for (const lang in models[script]) {
+      const trigrams = parseNgramValue(models[script][lang]);
+      if (trigrams.some((trigram) => trigram.includes("|"))) {
+        throw new Error(
+          `Model ${script}/${lang} has a trigram containing "|".`,
+        );
+      }
+      const index = buildBinaryIndex(trigrams);
+      const text = encoder.encode(trigrams.join("|"));
+      header.push([script, lang, index.hashes.length, text.length]);
+      blocks.push({ index, text });
+    }
+  }
+
+  const headerBytes = encoder.encode(JSON.stringify(header));
+  const length = blocks.reduce(
+    (sum, { index, text }) =>
+      sum +
+      index.hashes.length * 4 +
+      pad(index.ranks.length * 2) +
+      pad(text.length),
+    pad(12 + headerBytes.length),
+  );
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  bytes.set(MAGIC, 0);
+  view.setUint32(4, BINARY_MODEL_VERSION, true);
+  view.setUint32(8, headerBytes.length, true);
+  bytes.set(headerBytes, 12);
+  let offset = pad(12 + headerBytes.length);
+  blocks.forEach(({ index, text }) => {
+    index.hashes.forEach((hash, i) =>
+      view.setUint32(offset + i * 4, hash, true),
+    );
+    offset += index.hashes.length * 4;
+    index.ranks.forEach((rank, i) =>
+      view.setUint16(offset + i * 2, rank, true),
+    );
+    offset += pad(index.ranks.length * 2);
+    bytes.set(text, offset);
+    offset += pad(text.length);
+  });
+  return bytes;
+}
+
+/**
+ * Decodes binary model data written by `encodeModels`. Indexes are read as
+ * stored: on little-endian platforms they are views over the data, so no
+ * trigram is hashed and no lookup table is built.
+ * @param data Binary model data.
+ * @returns Models with their indexes, as models[script][lang].
+ * @throws {Error} If the data is not binary model data, or has another version.
+ */
+export function decodeModels(
+  data: Uint8Array | ArrayBuffer,
+): Record<string, Record<string, BinaryModel>> {
+  let bytes = ArrayBuffer.isView(data) ? data : new Uint8Array(data);
+  // Typed array views need offsets aligned to their element size.
+  if (bytes.byteOffset % 4 !== 0) bytes = bytes.slice();
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12 || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error("Invalid binary model data.");
+  }
+  const version = view.getUint32(4, true);
+  if (version !== BINARY_MODEL_VERSION) {
+    throw new Error(
+      `Unsupported binary model version ${version}. Expected ${BINARY_MODEL_VERSION}.`,
+    );
+  }
+  const decoder = new TextDecoder();
+  const headerLength = view.getUint32(8, true);
+  const header: HeaderEntry[] = JSON.parse(
+    decoder.decode(bytes.subarray(12, 12 + headerLength)),
+  );
+
+  const models: Record<string, Record<string, BinaryModel>> = {};
+  let offset = pad(12 + headerLength);
+  header.forEach(([script, lang, size, textLength]) => {
+    const ranksOffset = offset + size * 4;
+    const textOffset = ranksOffset + pad(size * 2);
+    if (textOffset + textLength > bytes.length) {
+      throw new Error("Invalid binary model data.");
+    }
+    const text = decoder.decode(
+      bytes.subarray(textOffset, textOffset + textLength),
+    );
+    const trigrams = text ? text.split("|") : [];
+    const table = LITTLE_ENDIAN
+      ? {
+          hashes: new Uint32Array(
+            bytes.buffer,
+            bytes.byteOffset + offset,
+            size,
+          ),
+          ranks: new Uint16Array(
+            bytes.buffer,
+            bytes.byteOffset + ranksOffset,
+            size,
+          ),
+        }
+      : {
+          hashes: Uint32Array.from({ length: size }, (_, i) =>
+            view.getUint32(offset + i * 4, true),
+          ),
+          ranks: Uint16Array.from({ length: size }, (_, i) =>
+            view.getUint16(ranksOffset + i * 2, true),
+          ),
+        };
+    models[script] = models[script] ?? {};
+    models[script][lang] = { trigrams, index: { ...table, trigrams } };
+    offset = textOffset + pad(textLength);
+  });
+  return models;
+}
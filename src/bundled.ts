@@ -0,0 +1,50 @@
+import latin from "./packs/latin.js";
+import cyrillic from "./packs/cyrillic.js";
+import arabic from "./packs/arabic.js";
+import devanagari from "./packs/devanagari.js";
+import ethiopic from "./packs/ethiopic.js";
+import hebrew from "./packs/hebrew.js";
+import romanized from "./packs/romanized.js";
+import { NgramValue, parseNgramValue } from "./ngrams.js";
+import { ModelRegistry } from "./registry.js";
+
+/**
+ * Raw n‑gram data, assembled from the bundled per‑script language packs.
+ * The compact string format (or an already prepared array) is used for each language.
+ */
+export const rawNgramsData: Record<string, Record<string, NgramValue>> = {};
+for (const pack of [
+  latin,
+  cyrillic,
+  arabic,
+  devanagari,
+  ethiopic,
+  hebrew,
+  romanized,
+]) {
+  rawNgramsData[pack.script] = pack.models;
+}
+
+/**
+ * Processes raw n‑gram data and builds the n‑grams mapping.
+ * (Each language’s n‑gram model is an array of tokens.)
+ */
+export const ngramsData: Record<string, Record<string, string[]>> = {};
+for (const script in rawNgramsData) {
+  ngramsData[script] = {};
+  for (const lang in rawNgramsData[script]) {
+    ngramsData[script][lang] = parseNgramValue(rawNgramsData[script][lang]);
+  }
+}
+
+export type NgramsDataType = typeof ngramsData;
+
+/**
+ * Creates a registry holding every bundled model, so the synchronous API
+ * works without loading packs first. It backs the default registry; use
+ * `ModelRegistry.lazy()` to load the packs on demand instead.
+ * @returns A registry with the models of every bundled pack.
+ */
+export function createBundledRegistry(): ModelRegistry {
+  return new ModelRegistry(ngramsData);
+}
@@ -0,0 +1,158 @@
+import { hashTrigram } from "./binary.js";
+import { ICacheOptions, ICacheStats } from "./interfaces/ICacheOptions.js";
+import { IDetectionSettings } from "./interfaces/IDetectionSettings.js";
+
+// Number of results kept when no size is given.
+const DEFAULT_MAX_SIZE = 1000;
+
+// Multiplier of the second 32-bit hash (from MurmurHash2).
+const MURMUR_MULTIPLIER = 0x5bd1e995;
+
+/**
+ * Hashes a text into a compact cache key: its FNV-1a hash (see
+ * `hashTrigram`), a second multiplicative hash and its length.
+ * @param text Text to hash.
+ * @returns Key identifying the text.
+ */
+export function hashText(text: string): string {
+  let hash = text.length;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), MURMUR_MULTIPLIER);
+    hash ^= hash >>> 15;
+  }
+  const fnv = hashTrigram(text).toString(36);
+  return `${fnv}.${(hash >>> 0).toString(36)}:${text.length}`;
+}
+
+// Identifiers of the objects named in settings fingerprints.
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+/**
+ * Names a setting value: primitives as themselves, objects and functions
+ * (custom metrics, normalization steps, confusable groups) by identity.
+ * @param value Setting value.
+ * @returns Name of the value.
+ */
+function nameValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value !== "object" && typeof value !== "function") {
+    return String(value);
+  }
+  let id = objectIds.get(value);
+  if (id === undefined) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return `#${id}`;
+}
+
+/**
+ * Fingerprints every setting that affects the scores of a detection, so
+ * that cached results are only reused under the same settings.
+ * @param settings Detection settings, with alpha‑3 codes.
+ * @returns Key identifying the settings.
+ */
+export function fingerprintSettings(settings: IDetectionSettings): string {
+  const { normalization, priors = {} } = settings;
+  return [
+    nameValue(settings.minLength),
+    settings.allowList?.join(",") ?? "",
+    settings.denyList?.join(",") ?? "",
+    JSON.stringify(settings.sampling ?? {}),
+    nameValue(settings.metric),
+    nameValue(settings.lexicon),
+    Array.isArray(normalization)
+      ? normalization.map(nameValue).join(",")
+      : nameValue(normalization),
+    nameValue(settings.confusables),
+    nameValue(settings.romanized),
+    Object.keys(priors)
+      .sort()
+      .map((lang) => `${lang}=${priors[lang]}`)
+      .join(","),
+  ].join("|");
+}
+
+/**
+ * Least-recently-used cache with an optional time to live per entry.
+ */
+export class DetectionCache<T> {
+  // Entries in order of use, least recent first.
+  private entries = new Map<string, { value: T; expires: number }>();
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private readonly maxSize: number;
+  private readonly ttl: number;
+
+  /**
+   * Creates a cache.
+   * @param options (Optional) Size and time-to-live limits.
+   * @throws {Error} If a limit is not a positive number.
+   */
+  constructor(options: ICacheOptions = {}) {
+    const { maxSize = DEFAULT_MAX_SIZE, ttl = Infinity } = options;
+    if (!(maxSize >= 1) || !(ttl > 0)) {
+      throw new Error("Cache size and time to live must be positive numbers");
+    }
+    this.maxSize = maxSize;
+    this.ttl = ttl;
+  }
+
+  /**
+   * Returns the value stored under a key, counting a hit or a miss.
+   * @param key Key.
+   * @returns Stored value, or undefined if missing or expired.
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (entry && entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      this.evictions++;
+    } else if (entry) {
+      // Move the entry to the most recent end.
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+      this.hits++;
+      return entry.value;
+    }
+    this.misses++;
+    return undefined;
+  }
+
+  /**
+   * Stores a value, evicting the least recently used entry when full.
+   * @param key Key.
+   * @param value Value.
+   */
+  set(key: string, value: T): void {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxSize) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+      this.evictions++;
+    }
+    this.entries.set(key, { value, expires: Date.now() + this.ttl });
+  }
+
+  /**
+   * Removes every entry. Statistics are kept.
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+
+  /**
+   * Returns the hit, miss and eviction counts, and the number of entries.
+   * @returns Cache statistics.
+   */
+  getStats(): ICacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      size: this.entries.size,
+    };
+  }
+}
@@ -0,0 +1,129 @@
+// Script identifiers (keys of `scripts`) handled by the CJK sub-detector.
+export const CJK_SCRIPTS = ["cmn", "jpn", "kor"];
+
+// Common characters only written in Simplified Chinese, and their
+// Traditional counterparts, in the same order.
+const SIMPLIFIED =
+  "这个们来时国说会为对发学问见还过没样长经现开关动无点东两从头边书车门马鱼鸟话语认让请谢读写买卖钱银钟电脑网线红绿给结级难远进运听觉爱欢乐万与专业丰乡乱争亚产亲价众优传伤体侠儿党兰兴养内军农冲决况冻净减凤击刘则刚创别务劳势区华单卫历压厅县参双变号吗园围图场坏块声处备够夺奋妈实宝审";
+const TRADITIONAL =
+  "這個們來時國說會為對發學問見還過沒樣長經現開關動無點東兩從頭邊書車門馬魚鳥話語認讓請謝讀寫買賣錢銀鐘電腦網線紅綠給結級難遠進運聽覺愛歡樂萬與專業豐鄉亂爭亞產親價眾優傳傷體俠兒黨蘭興養內軍農衝決況凍淨減鳳擊劉則剛創別務勞勢區華單衛歷壓廳縣參雙變號嗎園圍圖場壞塊聲處備夠奪奮媽實寶審";
+
+// Characters typical of written Cantonese and absent from standard Mandarin.
+const CANTONESE = "嘅咗佢哋唔冇喺嗰啲嘢噉咁畀睇嚟咩乜搵啱喎囉嘞";
+
+// Kanji only used in Japanese: kokuji and shinjitai forms that differ from
+// both Simplified and Traditional Chinese.
+const JAPANESE =
+  "込働畑峠枠匂栃気広売読図団歳児実楽変辺鉄戦関沢払仏険検験経続転伝対黒県労駅円様両単桜総発帰覚観権満営拡済浜";
+
+const simplifiedSet = new Set(SIMPLIFIED);
+const traditionalSet = new Set(TRADITIONAL);
+const cantoneseSet = new Set(CANTONESE);
+const japaneseSet = new Set(JAPANESE);
+
+const HAN = /\p{Script=Han}/u;
+const KANA = /\p{Script=Hiragana}|\p{Script=Katakana}/u;
+const HANGUL = /\p{Script=Hangul}/u;
+
+// Weight of one marker character, relative to one ordinary character.
+// Markers are a small share of any text, so each one counts for several.
+const MARKER_WEIGHT = 5;
+
+// Character counts collected from a text.
+type CjkCounts = {
+  han: number;
+  kana: number;
+  hangul: number;
+  simplified: number;
+  traditional: number;
+  cantonese: number;
+  japanese: number;
+};
+
+/**
+ * Counts Han, kana and Hangul characters and the marker characters of each variety.
+ * @param text Text to analyze.
+ * @returns Character counts.
+ */
+function countCjk(text: string): CjkCounts {
+  const counts: CjkCounts = {
+    han: 0,
+    kana: 0,
+    hangul: 0,
+    simplified: 0,
+    traditional: 0,
+    cantonese: 0,
+    japanese: 0,
+  };
+  for (const char of text) {
+    if (HAN.test(char)) {
+      counts.han++;
+      if (simplifiedSet.has(char)) counts.simplified++;
+      if (traditionalSet.has(char)) counts.traditional++;
+      if (cantoneseSet.has(char)) counts.cantonese++;
+      if (japaneseSet.has(char)) counts.japanese++;
+    } else if (KANA.test(char)) {
+      counts.kana++;
+    } else if (HANGUL.test(char)) {
+      counts.hangul++;
+    }
+  }
+  return counts;
+}
+
+/**
+ * Scores Mandarin, Cantonese, Japanese and Korean for text written with
+ * Han characters, kana or Hangul.
+ * Kana, Japanese-only kanji and Hangul claim the Han characters around them
+ * for Japanese and Korean; the remaining Han characters are split between
+ * Cantonese and Mandarin by the density of Cantonese characters.
+ * @param text Text to analyze.
+ * @returns Sorted list of [language, score] tuples with scores summing to 1,
+ * or an empty list if the text has no CJK characters.
+ */
+export function detectCjk(text: string): [string, number][] {
+  const counts = countCjk(text);
+  const total = counts.han + counts.kana + counts.hangul;
+  if (total === 0) return [];
+  const japaneseShare = Math.min(
+    1,
+    (MARKER_WEIGHT * (counts.kana + MARKER_WEIGHT * counts.japanese)) / total,
+  );
+  const koreanShare = Math.min(
+    1 - japaneseShare,
+    (MARKER_WEIGHT * counts.hangul) / total,
+  );
+  const chineseHan = counts.han * (1 - japaneseShare - koreanShare);
+  const cantoneseShare = chineseHan
+    ? Math.min(1, (MARKER_WEIGHT * counts.cantonese) / chineseHan)
+    : 0;
+  const weights: [string, number][] = [
+    ["cmn", chineseHan * (1 - cantoneseShare)],
+    ["yue", chineseHan * cantoneseShare],
+    ["jpn", counts.kana + counts.han * japaneseShare],
+    ["kor", counts.hangul + counts.han * koreanShare],
+  ];
+  return weights
+    .map(([lang, weight]): [string, number] => [lang, weight / total])
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Chooses the BCP 47 script subtag of CJK text: "Jpan" for Japanese, "Kore"
+ * for Korean, and "Hans" or "Hant" for Chinese, by counting characters that
+ * only exist in Simplified or in Traditional Chinese.
+ * @param lang Detected language (alpha‑3).
+ * @param text Text the language was detected in.
+ * @returns Script subtag.
+ */
+export function cjkScriptSubtag(lang: string, text: string): string {
+  if (lang === "jpn") return "Jpan";
+  if (lang === "kor") return "Kore";
+  const { simplified, traditional } = countCjk(text);
+  if (simplified === traditional) {
+    // Written Cantonese is mostly Traditional; Mandarin mostly Simplified.
+    return lang === "yue" ? "Hant" : "Hans";
+  }
+  return traditional > simplified ? "Hant" : "Hans";
+}
@@ -0,0 +1,291 @@
+import { readFile } from "node:fs/promises";
+import { LanguageGuesser } from "./language.js";
+import { ILanguageGuess } from "./interfaces/ILanguageGuess.js";
+
+export const CLI_USAGE = `Usage: fast-language-guesser [options] [file ...]
+
+Detects the language of each file, or of standard input when no file (or "-") is given.
+
+Options:
+  -l, --lines            Detect each input line separately
+  -m, --mixed            Use guessMixed for text mixing several languages
+  -f, --format <format>  Output format: text (default), json or jsonl
+  -a, --allow <codes>    Comma-separated list of allowed languages
+  -d, --deny <codes>     Comma-separated list of ignored languages
+  -n, --limit <number>   Maximum number of guesses per input (default: 3)
+      --field <name>     Read JSONL records and detect the language of this field
+      --into <name>      Field receiving the guesses in --field mode (default: language)
+  -h, --help             Show this help`;
+
+// Parsed command-line options.
+export type CliOptions = {
+  files: string[];
+  lines: boolean;
+  mixed: boolean;
+  format: "text" | "json" | "jsonl";
+  allowList: string[];
+  denyList: string[];
+  limit: number;
+  field?: string;
+  into: string;
+  help: boolean;
+};
+
+// Streams and file access used by the CLI, injectable for testing.
+export type CliIO = {
+  stdin: AsyncIterable<string | Uint8Array>;
+  stdout: { write(text: string): unknown };
+  stderr: { write(text: string): unknown };
+  readFile(path: string): Promise<string>;
+};
+
+// A guess as printed by the CLI.
+type CliGuess = { alpha2: string; alpha3: string; name: string; score: number };
+
+/**
+ * Splits a comma-separated list of language codes.
+ * @param value Option value.
+ * @returns Non-empty codes.
+ */
+function parseCodes(value: string): string[] {
+  return value
+    .split(",")
+    .map((code) => code.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses command-line arguments.
+ * @param argv Arguments, without the node executable and script path.
+ * @returns Parsed options.
+ * @throws {Error} If an option is unknown or has an invalid value.
+ */
+export function parseCliArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    files: [],
+    lines: false,
+    mixed: false,
+    format: "text",
+    allowList: [],
+    denyList: [],
+    limit: 3,
+    into: "language",
+    help: false,
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = (): string => {
+      const next = argv[++i];
+      if (next === undefined) throw new Error(`Missing value for ${arg}.`);
+      return next;
+    };
+    switch (arg) {
+      case "-l":
+      case "--lines":
+        options.lines = true;
+        break;
+      case "-m":
+      case "--mixed":
+        options.mixed = true;
+        break;
+      case "-f":
+      case "--format": {
+        const format = value();
+        if (format !== "text" && format !== "json" && format !== "jsonl") {
+          throw new Error(
+            `Unknown format "${format}". Expected text, json or jsonl.`,
+          );
+        }
+        options.format = format;
+        break;
+      }
+      case "-a":
+      case "--allow":
+        options.allowList = parseCodes(value());
+        break;
+      case "-d":
+      case "--deny":
+        options.denyList = parseCodes(value());
+        break;
+      case "-n":
+      case "--limit": {
+        const limit = Number(value());
+        if (!Number.isInteger(limit) || limit < 1) {
+          throw new Error(`Invalid limit. Expected a positive integer.`);
+        }
+        options.limit = limit;
+        break;
+      }
+      case "--field":
+        options.field = value();
+        break;
+      case "--into":
+        options.into = value();
+        break;
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") {
+          throw new Error(`Unknown option ${arg}.`);
+        }
+        options.files.push(arg);
+    }
+  }
+  return options;
+}
+
+/**
+ * Reads a whole stream as text.
+ * @param stream Stream of chunks.
+ * @returns Decoded text.
+ */
+async function readStream(
+  stream: AsyncIterable<string | Uint8Array>,
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let text = "";
+  for await (const chunk of stream) {
+    text +=
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+  }
+  return text + decoder.decode();
+}
+
+/**
+ * Formats one input's guesses as plain text, one guess per line.
+ * @param source Input name, or undefined when there is a single input.
+ * @param guesses Guesses for the input.
+ * @returns Tab-separated lines.
+ */
+function formatText(source: string | undefined, guesses: CliGuess[]): string {
+  return guesses
+    .map((guess) =>
+      [
+        ...(source === undefined ? [] : [source]),
+        guess.alpha3,
+        guess.alpha2,
+        guess.name,
+        guess.score.toFixed(4),
+      ].join("\t"),
+    )
+    .join("\n");
+}
+
+/**
+ * Runs the command-line interface.
+ * @param argv Arguments, without the node executable and script path.
+ * @param io (Optional) Streams and file access. Defaults to the process ones.
+ * @returns Exit code: 0 on success, 1 on input errors, 2 on usage errors.
+ */
+export async function runCli(
+  argv: string[],
+  io: CliIO = {
+    stdin: process.stdin,
+    stdout: process.stdout,
+    stderr: process.stderr,
+    readFile: (path) => readFile(path, "utf8"),
+  },
+): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(argv);
+  } catch (error) {
+    io.stderr.write(`${(error as Error).message}\n\n${CLI_USAGE}\n`);
+    return 2;
+  }
+  if (options.help) {
+    io.stdout.write(`${CLI_USAGE}\n`);
+    return 0;
+  }
+
+  const guesser = new LanguageGuesser(undefined, {
+    allowList: options.allowList,
+    denyList: options.denyList,
+  });
+  await guesser.registry.loadAll();
+  const detect = (text: string): CliGuess[] =>
+    (options.mixed
+      ? guesser.guessMixed(text, [], options.limit)
+      : guesser.guess(text, [], options.limit)
+    ).map(({ alpha2, alpha3, language, score }: ILanguageGuess) => ({
+      alpha2,
+      alpha3,
+      name: language,
+      score,
+    }));
+
+  const inputs: { source: string; text: string }[] = [];
+  const files = options.files.length > 0 ? options.files : ["-"];
+  try {
+    for (const file of files) {
+      const text =
+        file === "-" ? await readStream(io.stdin) : await io.readFile(file);
+      inputs.push({ source: file, text });
+    }
+  } catch (error) {
+    io.stderr.write(`${(error as Error).message}\n`);
+    return 1;
+  }
+
+  // Batch mode: annotate each JSONL record and write it back.
+  if (options.field !== undefined) {
+    const field = options.field;
+    for (const { source, text } of inputs) {
+      const lines = text.split(/\r?\n/);
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        let record: unknown;
+        try {
+          record = JSON.parse(lines[i]);
+        } catch {
+          io.stderr.write(`${source}:${i + 1}: invalid JSON.\n`);
+          return 1;
+        }
+        if (
+          typeof record !== "object" ||
+          record === null ||
+          Array.isArray(record)
+        ) {
+          io.stderr.write(`${source}:${i + 1}: expected a JSON object.\n`);
+          return 1;
+        }
+        const fields = record as Record<string, unknown>;
+        const value = fields[field];
+        fields[options.into] = typeof value === "string" ? detect(value) : null;
+        io.stdout.write(`${JSON.stringify(fields)}\n`);
+      }
+    }
+    return 0;
+  }
+
+  const results: { source: string; guesses: CliGuess[] }[] = [];
+  inputs.forEach(({ source, text }) => {
+    if (!options.lines) {
+      results.push({ source, guesses: detect(text) });
+      return;
+    }
+    text.split(/\r?\n/).forEach((line, i) => {
+      if (line.trim()) {
+        results.push({ source: `${source}:${i + 1}`, guesses: detect(line) });
+      }
+    });
+  });
+
+  if (options.format === "json") {
+    io.stdout.write(`${JSON.stringify(results, null, 2)}\n`);
+  } else if (options.format === "jsonl") {
+    results.forEach((result) => io.stdout.write(`${JSON.stringify(result)}\n`));
+  } else {
+    const labelled = results.length > 1;
+    results.forEach(({ source, guesses }) =>
+      io.stdout.write(
+        `${formatText(labelled ? source : undefined, guesses)}\n`,
+      ),
+    );
+  }
+  return 0;
+}
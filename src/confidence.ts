@@ -0,0 +1,68 @@
+// Distance difference that divides a candidate's odds by e.
+// Distances grow with the number of trigrams, so longer texts get sharper probabilities.
+export const DISTANCE_TEMPERATURE = 50;
+
+// Minimum number of analyzed characters for a reliable guess.
+export const RELIABLE_MIN_LENGTH = 20;
+
+// Minimum probability of the top candidate for a reliable guess.
+export const RELIABLE_MIN_PROBABILITY = 0.6;
+
+// Maximum share of trigrams missing from the top model for a reliable guess.
+export const RELIABLE_MAX_MISS_RATIO = 0.85;
+
+// Minimum margin (distance gap per trigram between the two best candidates,
+// relative to the missing-trigram penalty) for a reliable guess.
+export const RELIABLE_MIN_MARGIN = 0.002;
+
+/**
+ * Converts sorted distances into probabilities summing to 1 (softmax over negative distances).
+ * @param distances Sorted list of [language, distance] tuples.
+ * @returns List of [language, probability] tuples, in the same order.
+ */
+export function toProbabilities(
+  distances: [string, number][],
+): [string, number][] {
+  if (distances.length === 0) return [];
+  const minDistance = distances[0][1];
+  const weights = distances.map(([, d]) =>
+    Math.exp(-(d - minDistance) / DISTANCE_TEMPERATURE),
+  );
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  return distances.map(([lang], i) => [lang, weights[i] / total]);
+}
+
+/**
+ * Rescales probabilities so they sum to 1, e.g. after dropping candidates.
+ * @param probabilities List of [language, probability] tuples.
+ * @returns Rescaled list of [language, probability] tuples.
+ */
+export function normalizeProbabilities(
+  probabilities: [string, number][],
+): [string, number][] {
+  const total = probabilities.reduce((sum, [, p]) => sum + p, 0);
+  if (!total) return probabilities;
+  return probabilities.map(([lang, p]) => [lang, p / total]);
+}
+
+/**
+ * Decides whether a guess can be trusted.
+ * @param length Number of analyzed characters.
+ * @param probability Probability of the top candidate.
+ * @param missRatio Share of trigrams missing from the top model.
+ * @param margin Margin between the two best candidates (see `ICalibratedDetection`).
+ * @returns True if the guess is reliable.
+ */
+export function isReliable(
+  length: number,
+  probability: number,
+  missRatio: number,
+  margin: number,
+): boolean {
+  return (
+    length >= RELIABLE_MIN_LENGTH &&
+    probability >= RELIABLE_MIN_PROBABILITY &&
+    missRatio <= RELIABLE_MAX_MISS_RATIO &&
+    margin >= RELIABLE_MIN_MARGIN
+  );
+}
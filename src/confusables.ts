@@ -0,0 +1,165 @@
+import confusablesDataRaw from "./data/confusables.json";
+import { parseLexiconValue, tokenizeWords } from "./lexicon.js";
+import {
+  IConfusableGroup,
+  ILanguageMarkers,
+} from "./interfaces/IConfusableGroup.js";
+
+// Share of the top score within which group members are re-ranked.
+export const CONFUSABLE_MARGIN = 0.15;
+
+/**
+ * Bundled groups of closely related languages, with their markers.
+ */
+export const confusableGroups: IConfusableGroup[] =
+  confusablesDataRaw as unknown as IConfusableGroup[];
+
+// Markers prepared for matching.
+type CompiledMarkers = {
+  words: Set<string>;
+  chars: Set<string>;
+  patterns: RegExp[];
+};
+
+// Prepared markers shared by every detection using the same group.
+const compiledCache = new WeakMap<
+  IConfusableGroup,
+  Record<string, CompiledMarkers>
+>();
+
+/**
+ * Prepares the markers of a language for matching.
+ * @param markers Markers.
+ * @returns Word and character sets, and compiled patterns.
+ * @throws {SyntaxError} If a pattern is not a valid regular expression.
+ */
+function compileMarkers(markers: ILanguageMarkers): CompiledMarkers {
+  return {
+    words: new Set(parseLexiconValue(markers.words ?? [])),
+    chars: new Set(markers.chars ?? ""),
+    patterns: (markers.patterns ?? []).map(
+      (pattern) => new RegExp(pattern, "gu"),
+    ),
+  };
+}
+
+/**
+ * Returns the prepared markers of every language in a group.
+ * @param group Confusable group.
+ * @returns Prepared markers as markers[lang].
+ */
+function compileGroup(
+  group: IConfusableGroup,
+): Record<string, CompiledMarkers> {
+  let compiled = compiledCache.get(group);
+  if (!compiled) {
+    compiled = {};
+    for (const lang in group.markers) {
+      compiled[lang] = compileMarkers(group.markers[lang]);
+    }
+    compiledCache.set(group, compiled);
+  }
+  return compiled;
+}
+
+/**
+ * Counts the markers of a language found in a text.
+ * @param text Lowercased text.
+ * @param words Normalized words of the text.
+ * @param markers Prepared markers.
+ * @returns Number of marker occurrences.
+ */
+function countMarkers(
+  text: string,
+  words: string[],
+  markers: CompiledMarkers,
+): number {
+  let hits = words.filter((word) => markers.words.has(word)).length;
+  for (const char of text) if (markers.chars.has(char)) hits++;
+  markers.patterns.forEach((pattern) => {
+    hits += text.match(pattern)?.length ?? 0;
+  });
+  return hits;
+}
+
+/**
+ * Resolves the `confusables` detection setting.
+ * @param confusables Setting: false to disable, groups to use instead of the bundled ones.
+ * @returns Groups to apply.
+ */
+export function resolveConfusables(
+  confusables: boolean | IConfusableGroup[] = true,
+): IConfusableGroup[] {
+  if (confusables === true) return confusableGroups;
+  return confusables || [];
+}
+
+/**
+ * Re-ranks the members of one group when the top candidate belongs to it.
+ * Members within the group's margin of the top score are ordered by their
+ * marker counts, ties keeping the trigram order; scores stay in place.
+ * Without any marker, the group's fallback language, if close enough, leads.
+ * @param scores Sorted list of [language, score] tuples.
+ * @param text Lowercased text.
+ * @param words Normalized words of the text.
+ * @param group Confusable group.
+ * @returns Sorted list of [language, score] tuples.
+ */
+function rerankGroup(
+  scores: [string, number][],
+  text: string,
+  words: string[],
+  group: IConfusableGroup,
+): [string, number][] {
+  const [top, topScore] = scores[0];
+  if (!(top in group.markers)) return scores;
+  const threshold = topScore * (1 - (group.margin ?? CONFUSABLE_MARGIN));
+  const positions = scores
+    .map(([lang, score], i) =>
+      lang in group.markers && score >= threshold ? i : -1,
+    )
+    .filter((i) => i >= 0);
+  if (positions.length < 2) return scores;
+
+  const compiled = compileGroup(group);
+  const contenders = positions.map((position) => ({
+    lang: scores[position][0],
+    hits: countMarkers(text, words, compiled[scores[position][0]]),
+  }));
+  if (contenders.every(({ hits }) => hits === 0)) {
+    const fallback = contenders.find(({ lang }) => lang === group.fallback);
+    if (!fallback) return scores;
+    fallback.hits = 1;
+  }
+  // Array.prototype.sort is stable, so ties keep the trigram order.
+  contenders.sort((a, b) => b.hits - a.hits);
+  const reranked = scores.slice();
+  positions.forEach((position, i) => {
+    reranked[position] = [contenders[i].lang, scores[position][1]];
+  });
+  return reranked;
+}
+
+/**
+ * Re-ranks closely related languages by their distinctive words, characters
+ * and spellings. Groups are applied in order, each one only when the current
+ * top candidate belongs to it.
+ * @param scores Sorted list of [language, score] tuples.
+ * @param text Analyzed text.
+ * @param groups (Optional) Confusable groups. Defaults to the bundled groups.
+ * @returns Sorted list of [language, score] tuples, with the same scores.
+ * @throws {SyntaxError} If a group has an invalid pattern.
+ */
+export function disambiguate(
+  scores: [string, number][],
+  text: string,
+  groups: IConfusableGroup[] = confusableGroups,
+): [string, number][] {
+  if (scores.length < 2 || groups.length === 0) return scores;
+  const lowercased = text.toLowerCase();
+  const words = tokenizeWords(text);
+  return groups.reduce(
+    (result, group) => rerankGroup(result, lowercased, words, group),
+    scores,
+  );
+}
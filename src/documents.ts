@@ -0,0 +1,418 @@
+import { normalizationSteps } from "./normalization.js";
+import { ITextBlock } from "./interfaces/IDocumentGuess.js";
+
+// Document formats with a text extractor.
+export type DocumentFormat = "html" | "markdown" | "json";
+
+// HTML comments, doctypes, processing instructions and tags (closing slash,
+// name and attributes).
+const HTML_TOKEN =
+  /<!--[\s\S]*?(?:-->|$)|<![^>]*>|<\?[^>]*>|<(\/?)([a-z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/giu;
+
+// `lang` attribute of a tag.
+const LANG_ATTRIBUTE =
+  /(?:^|\s)lang\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/iu;
+
+// Elements whose content is not prose.
+const SKIPPED_ELEMENTS = new Set([
+  "code",
+  "kbd",
+  "noscript",
+  "pre",
+  "samp",
+  "script",
+  "style",
+  "svg",
+  "template",
+]);
+
+// Elements whose content is raw text, skipped up to their closing tag.
+const RAW_TEXT_ELEMENTS = new Set(["script", "style"]);
+
+// Elements that start a new block of text.
+const BLOCK_ELEMENTS = new Set([
+  "address",
+  "article",
+  "aside",
+  "blockquote",
+  "body",
+  "br",
+  "button",
+  "caption",
+  "dd",
+  "details",
+  "div",
+  "dl",
+  "dt",
+  "figcaption",
+  "figure",
+  "footer",
+  "form",
+  "h1",
+  "h2",
+  "h3",
+  "h4",
+  "h5",
+  "h6",
+  "head",
+  "header",
+  "hr",
+  "html",
+  "label",
+  "li",
+  "main",
+  "nav",
+  "ol",
+  "option",
+  "p",
+  "section",
+  "summary",
+  "table",
+  "td",
+  "th",
+  "title",
+  "tr",
+  "ul",
+]);
+
+// Elements without content or closing tag.
+const VOID_ELEMENTS = new Set([
+  "area",
+  "base",
+  "br",
+  "col",
+  "embed",
+  "hr",
+  "img",
+  "input",
+  "link",
+  "meta",
+  "source",
+  "track",
+  "wbr",
+]);
+
+// Named character references decoded to text, besides accented letters;
+// others become a space.
+const HTML_ENTITIES: Record<string, string> = {
+  aelig: "æ",
+  amp: "&",
+  apos: "'",
+  eth: "ð",
+  gt: ">",
+  hellip: "…",
+  laquo: "«",
+  ldquo: "“",
+  lsquo: "‘",
+  lt: "<",
+  mdash: "—",
+  nbsp: " ",
+  ndash: "–",
+  oelig: "œ",
+  oslash: "ø",
+  quot: '"',
+  raquo: "»",
+  rdquo: "”",
+  rsquo: "’",
+  szlig: "ß",
+  thorn: "þ",
+};
+
+// Combining marks of accented letter references, e.g. "eacute" or "Ntilde".
+const ENTITY_ACCENTS: Record<string, string> = {
+  acute: "\u0301",
+  cedil: "\u0327",
+  circ: "\u0302",
+  grave: "\u0300",
+  ring: "\u030a",
+  tilde: "\u0303",
+  uml: "\u0308",
+};
+
+// Character references.
+const HTML_ENTITY = /&(?:#(\d+)|#x([\da-f]+)|([a-z]+));/giu;
+
+/**
+ * Collects pieces of a document into blocks, with the span they cover.
+ */
+class BlockWriter {
+  readonly blocks: ITextBlock[] = [];
+  private parts: string[] = [];
+  private start = 0;
+  private end = 0;
+  private hint?: string;
+
+  /**
+   * Appends a piece of the document to the current block.
+   * @param source Piece of the document.
+   * @param offset Position of the piece in the document.
+   * @param text Human text of the piece.
+   * @param hint (Optional) Declared language, kept from the block's first piece.
+   */
+  add(source: string, offset: number, text: string, hint?: string): void {
+    if (!text.trim()) return;
+    if (this.parts.length === 0) {
+      this.start = offset + source.length - source.trimStart().length;
+      this.hint = hint;
+    }
+    this.end = offset + source.trimEnd().length;
+    this.parts.push(text);
+  }
+
+  /**
+   * Closes the current block.
+   */
+  flush(): void {
+    if (this.parts.length === 0) return;
+    this.blocks.push({
+      text: this.parts.join(" ").replace(/\s+/gu, " ").trim(),
+      start: this.start,
+      end: this.end,
+      ...(this.hint ? { hint: this.hint } : {}),
+    });
+    this.parts = [];
+  }
+}
+
+/**
+ * Decodes HTML character references.
+ * @param text HTML text.
+ * @returns Decoded text.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(HTML_ENTITY, (match, decimal, hex, name) => {
+    if (name) {
+      const accented = /^([a-z])([a-z]+)$/iu.exec(name);
+      const accent = accented && ENTITY_ACCENTS[accented[2]];
+      if (accent) return (accented[1] + accent).normalize("NFC");
+      return HTML_ENTITIES[name.toLowerCase()] ?? " ";
+    }
+    const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : " ";
+  });
+}
+
+/**
+ * Extracts the human text of an HTML document. Block elements (paragraphs,
+ * headings, list items, cells...) and elements with a `lang` attribute start
+ * new blocks; `<script>`, `<style>`, `<code>`, `<pre>` and similar elements
+ * are skipped, as are tags, attributes and comments.
+ * @param html HTML document or fragment.
+ * @returns Text blocks with their span in the document and declared language.
+ */
+export function extractHtml(html: string): ITextBlock[] {
+  const writer = new BlockWriter();
+  const token = new RegExp(HTML_TOKEN.source, HTML_TOKEN.flags);
+  // Open elements, innermost last.
+  const stack: { tag: string; lang?: string }[] = [];
+  let skipped = 0;
+  let last = 0;
+  const addText = (end: number): void => {
+    if (skipped > 0) return;
+    const source = html.slice(last, end);
+    // The innermost `lang` applies; an empty one means unknown.
+    const hint = [...stack].reverse().find((e) => e.lang !== undefined)?.lang;
+    writer.add(source, last, decodeEntities(source), hint || undefined);
+  };
+  for (let match = token.exec(html); match; match = token.exec(html)) {
+    addText(match.index);
+    last = token.lastIndex;
+    const [, closing, name, attributes] = match;
+    if (!name) continue;
+    const tag = name.toLowerCase();
+    if (closing) {
+      const at = stack.map((element) => element.tag).lastIndexOf(tag);
+      if (at === -1) continue;
+      const closed = stack.splice(at);
+      skipped -= closed.filter((e) => SKIPPED_ELEMENTS.has(e.tag)).length;
+      if (BLOCK_ELEMENTS.has(tag) || closed.some((e) => e.lang !== undefined)) {
+        writer.flush();
+      }
+      continue;
+    }
+    const selfClosing = VOID_ELEMENTS.has(tag) || attributes.endsWith("/");
+    if (RAW_TEXT_ELEMENTS.has(tag) && !selfClosing) {
+      // Searched in the original text: lowercasing may change offsets.
+      const end = new RegExp(`</${tag}`, "giu");
+      end.lastIndex = last;
+      last = end.exec(html)?.index ?? html.length;
+      token.lastIndex = last;
+      continue;
+    }
+    const langMatch = LANG_ATTRIBUTE.exec(attributes);
+    const lang = langMatch?.slice(1).find((value) => value !== undefined);
+    if (BLOCK_ELEMENTS.has(tag) || lang !== undefined) writer.flush();
+    if (selfClosing) continue;
+    stack.push({ tag, lang: lang?.trim() });
+    if (SKIPPED_ELEMENTS.has(tag)) skipped++;
+  }
+  addText(html.length);
+  writer.flush();
+  return writer.blocks;
+}
+
+/**
+ * Strips the Markdown syntax of a line, keeping the text of links and images.
+ * @param line Line of a paragraph, heading, list item or table.
+ * @returns Human text of the line.
+ */
+function stripMarkdown(line: string): string {
+  const text = line
+    .replace(/^\s*(?:>\s?)+/u, "")
+    .replace(/^\s*(?:#{1,6}\s+|[-*+]\s+(?:\[[ x]\]\s+)?|\d+[.)]\s+)/iu, "")
+    .replace(/\s#+\s*$/u, "")
+    .replace(/(`+)[\s\S]*?\1/gu, " ")
+    .replace(/!?\[([^\]]*)\](?:\([^)]*\)|\[[^\]]*\])/gu, "$1")
+    .replace(/<(?:[a-z][a-z\d+.-]*:|www\.)[^>\s]*>/giu, " ");
+  return normalizationSteps.urls
+    .apply(normalizationSteps.html.apply(text))
+    .replace(/[*~|]+|(?<![\p{L}\p{N}])_+|_+(?![\p{L}\p{N}])/gu, " ")
+    .replace(/\\([!-/:-@[-`{-~])/gu, "$1");
+}
+
+/**
+ * Extracts the human text of a Markdown document. Paragraphs, headings, list
+ * items and table rows become blocks; fenced and indented code blocks, link
+ * reference definitions, link and image URLs, inline code and HTML are skipped.
+ * @param markdown Markdown document.
+ * @returns Text blocks with their span in the document.
+ */
+export function extractMarkdown(markdown: string): ITextBlock[] {
+  const writer = new BlockWriter();
+  // Opening fence of the code block being skipped, if any.
+  let fence: string | undefined;
+  let previousBlank = true;
+  let offset = 0;
+  for (const line of markdown.split("\n")) {
+    const start = offset;
+    offset += line.length + 1;
+    if (fence) {
+      if (line.trimStart().startsWith(fence)) fence = undefined;
+      continue;
+    }
+    const opening = /^ {0,3}(`{3,}|~{3,})/u.exec(line);
+    if (opening) {
+      writer.flush();
+      fence = opening[1];
+      continue;
+    }
+    const blank = !line.trim();
+    // Indented code only starts after a blank line.
+    if (blank || (previousBlank && /^(?: {4}|\t)/u.test(line))) {
+      writer.flush();
+      previousBlank = true;
+      continue;
+    }
+    previousBlank = false;
+    // Link reference definitions, thematic breaks, setext underlines and
+    // table delimiter rows carry no text.
+    if (
+      /^ {0,3}\[[^\]]+\]:\s*\S/u.test(line) ||
+      /^ {0,3}(?:(?:[-*_]\s*){3,}|=+\s*|[|:\s-]*-[|:\s-]*)$/u.test(line)
+    ) {
+      writer.flush();
+      continue;
+    }
+    const heading = /^ {0,3}#{1,6}(?:\s|$)/u.test(line);
+    const separate =
+      heading ||
+      /^\s*(?:>\s?)*(?:[-*+]|\d+[.)])\s/u.test(line) ||
+      /^\s*\|/u.test(line);
+    if (separate) writer.flush();
+    writer.add(line, start, stripMarkdown(line));
+    if (heading) writer.flush();
+  }
+  writer.flush();
+  return writer.blocks;
+}
+
+/**
+ * Extracts string values of a JSON document.
+ * @param json JSON document.
+ * @param fields (Optional) Fields to extract: names (e.g. "title") or paths
+ * without array indices (e.g. "items.title"). Defaults to every string value.
+ * @returns Text blocks with their span in the document and their path.
+ * @throws {SyntaxError} If the document is not valid JSON.
+ */
+export function extractJson(json: string, fields?: string[]): ITextBlock[] {
+  JSON.parse(json);
+  const blocks: ITextBlock[] = [];
+  const selected = (path: string): boolean => {
+    if (!fields) return true;
+    const plain = path.replace(/\[\d+\]/gu, "");
+    return fields.some(
+      (field) => plain === field || plain.endsWith(`.${field}`),
+    );
+  };
+  let i = 0;
+  const skipSpace = (): void => {
+    while (/[ \t\n\r]/u.test(json[i] ?? "")) i++;
+  };
+  const readString = (): string => {
+    const start = i++;
+    while (json[i] !== '"') i += json[i] === "\\" ? 2 : 1;
+    i++;
+    return JSON.parse(json.slice(start, i));
+  };
+  const readValue = (path: string): void => {
+    skipSpace();
+    const open = json[i];
+    if (open === "{" || open === "[") {
+      const close = open === "{" ? "}" : "]";
+      i++;
+      skipSpace();
+      for (let index = 0; json[i] !== close; index++) {
+        if (open === "{") {
+          skipSpace();
+          const key = readString();
+          skipSpace();
+          i++; // ":"
+          readValue(path ? `${path}.${key}` : key);
+        } else {
+          readValue(`${path}[${index}]`);
+        }
+        skipSpace();
+        if (json[i] === ",") i++;
+      }
+      i++;
+    } else if (open === '"') {
+      const start = i;
+      const text = readString().replace(/\s+/gu, " ").trim();
+      if (text && selected(path)) {
+        blocks.push({ text, start: start + 1, end: i - 1, path });
+      }
+    } else {
+      while (i < json.length && !/[,\]}\s]/u.test(json[i])) i++;
+    }
+  };
+  readValue("");
+  return blocks;
+}
+
+/**
+ * Extracts the human text of a document.
+ * @param document Document.
+ * @param format Document format.
+ * @param fields (Optional) JSON fields to extract (see `extractJson`).
+ * @returns Text blocks, in document order.
+ * @throws {Error} If the format is unknown.
+ * @throws {SyntaxError} If a JSON document is not valid.
+ */
+export function extractBlocks(
+  document: string,
+  format: DocumentFormat,
+  fields?: string[],
+): ITextBlock[] {
+  switch (format) {
+    case "html":
+      return extractHtml(document);
+    case "markdown":
+      return extractMarkdown(document);
+    case "json":
+      return extractJson(document, fields);
+    default:
+      throw new Error(
+        `Unknown document format "${format}". Expected one of: html, markdown, json.`,
+      );
+  }
+}
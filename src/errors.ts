@@ -0,0 +1,27 @@
+/**
+ * Thrown when text is routed to a script whose language pack can be loaded
+ * but has not been loaded yet.
+ */
+export class ScriptNotLoadedError extends Error {
+  constructor(public readonly script: string) {
+    super(
+      `The language pack for the "${script}" script is not loaded. ` +
+        `Load it with registry.loadScript("${script}") or use guessAsync().`,
+    );
+    this.name = "ScriptNotLoadedError";
+  }
+}
+
+/**
+ * Thrown when allow or deny lists hold codes that match neither a known
+ * language nor a model.
+ */
+export class UnknownLanguageError extends Error {
+  constructor(public readonly codes: string[]) {
+    super(
+      `Unknown language codes: ${codes.join(", ")}. ` +
+        `Expected ISO 639 codes of known languages or of registered models.`,
+    );
+    this.name = "UnknownLanguageError";
+  }
+}
@@ -0,0 +1,217 @@
+import { LanguageGuesser } from "./language.js";
+import {
+  IEvaluationReport,
+  ILabelledSample,
+  ILanguageMetrics,
+  ILengthBucket,
+} from "./interfaces/IEvaluationReport.js";
+
+// Default text length buckets: [0, 20), [20, 50), [50, 100), [100, ∞).
+export const DEFAULT_LENGTH_BUCKETS = [20, 50, 100];
+
+/**
+ * Parses a labelled dataset.
+ * - JSONL: one object per line, with the text and label in `textField` and `labelField`.
+ * - TSV: one sample per line, as `label<TAB>text`.
+ * Blank lines are skipped.
+ * @param content Dataset content.
+ * @param format Dataset format.
+ * @param fields (Optional) JSONL field names.
+ * @returns Labelled samples.
+ * @throws {Error} If a line cannot be parsed.
+ */
+export function parseDataset(
+  content: string,
+  format: "jsonl" | "tsv",
+  fields: { textField?: string; labelField?: string } = {},
+): ILabelledSample[] {
+  const { textField = "text", labelField = "label" } = fields;
+  const samples: ILabelledSample[] = [];
+  content.split(/\r?\n/).forEach((line, i) => {
+    if (!line.trim()) return;
+    if (format === "tsv") {
+      const tab = line.indexOf("\t");
+      if (tab < 0) throw new Error(`Line ${i + 1}: expected "label<TAB>text".`);
+      samples.push({
+        label: line.substring(0, tab).trim(),
+        text: line.substring(tab + 1),
+      });
+      return;
+    }
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`Line ${i + 1}: invalid JSON.`, { cause: error });
+    }
+    if (
+      typeof record !== "object" ||
+      record === null ||
+      Array.isArray(record)
+    ) {
+      throw new Error(`Line ${i + 1}: expected a JSON object.`);
+    }
+    const text = (record as Record<string, unknown>)[textField];
+    const label = (record as Record<string, unknown>)[labelField];
+    if (typeof text !== "string" || typeof label !== "string") {
+      throw new Error(
+        `Line ${i + 1}: expected string fields "${textField}" and "${labelField}".`,
+      );
+    }
+    samples.push({ text, label });
+  });
+  return samples;
+}
+
+/**
+ * Runs labelled samples through `LanguageGuesser.guess` and measures the results.
+ * Labels may be codes in any form; they are compared as alpha‑3 codes.
+ * @param guesser Guesser to evaluate.
+ * @param samples Labelled samples.
+ * @param options (Optional) Allow and deny lists passed to `guess`, and length bucket boundaries.
+ * @returns Evaluation report.
+ */
+export function evaluate(
+  guesser: LanguageGuesser,
+  samples: ILabelledSample[],
+  options: {
+    allowList?: string[];
+    denyList?: string[];
+    lengthBuckets?: number[];
+  } = {},
+): IEvaluationReport {
+  const {
+    allowList = [],
+    denyList = [],
+    lengthBuckets = DEFAULT_LENGTH_BUCKETS,
+  } = options;
+  const boundaries = [0, ...lengthBuckets, Infinity];
+  const lengths: ILengthBucket[] = boundaries.slice(0, -1).map((min, i) => ({
+    min,
+    max: boundaries[i + 1],
+    total: 0,
+    correct: 0,
+    accuracy: 0,
+  }));
+  const confusion: Record<string, Record<string, number>> = {};
+  let correct = 0;
+  samples.forEach(({ text, label }) => {
+    const expected = guesser.getLanguage(label)?.alpha3 ?? label;
+    const predicted = guesser.guess(text, allowList, 1, denyList)[0].alpha3;
+    confusion[expected] = confusion[expected] ?? {};
+    confusion[expected][predicted] = (confusion[expected][predicted] || 0) + 1;
+    const bucket = lengths.find(
+      (b) => text.length >= b.min && text.length < b.max,
+    );
+    if (bucket) bucket.total++;
+    if (predicted === expected) {
+      correct++;
+      if (bucket) bucket.correct++;
+    }
+  });
+  lengths.forEach((bucket) => {
+    bucket.accuracy = bucket.total ? bucket.correct / bucket.total : 0;
+  });
+  return {
+    total: samples.length,
+    correct,
+    accuracy: samples.length ? correct / samples.length : 0,
+    languages: computeLanguageMetrics(confusion),
+    confusion,
+    lengths,
+  };
+}
+
+/**
+ * Computes precision, recall and F1 per language from a confusion matrix.
+ * @param confusion Confusion matrix as confusion[expected][predicted].
+ * @returns Metrics per language, for every expected or predicted language.
+ */
+export function computeLanguageMetrics(
+  confusion: Record<string, Record<string, number>>,
+): Record<string, ILanguageMetrics> {
+  const support: Record<string, number> = {};
+  const predicted: Record<string, number> = {};
+  for (const expected in confusion) {
+    for (const guess in confusion[expected]) {
+      const count = confusion[expected][guess];
+      support[expected] = (support[expected] || 0) + count;
+      predicted[guess] = (predicted[guess] || 0) + count;
+    }
+  }
+  const metrics: Record<string, ILanguageMetrics> = {};
+  const languages = new Set([
+    ...Object.keys(support),
+    ...Object.keys(predicted),
+  ]);
+  languages.forEach((lang) => {
+    const truePositives = confusion[lang]?.[lang] ?? 0;
+    const precision = predicted[lang] ? truePositives / predicted[lang] : 0;
+    const recall = support[lang] ? truePositives / support[lang] : 0;
+    metrics[lang] = {
+      precision,
+      recall,
+      f1:
+        precision + recall
+          ? (2 * precision * recall) / (precision + recall)
+          : 0,
+      support: support[lang] ?? 0,
+      predicted: predicted[lang] ?? 0,
+    };
+  });
+  return metrics;
+}
+
+/**
+ * Renders an evaluation report as plain text.
+ * @param report Evaluation report.
+ * @returns Printable report.
+ */
+export function formatReport(report: IEvaluationReport): string {
+  const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  const lines = [
+    `Accuracy: ${percent(report.accuracy)} (${report.correct}/${report.total})`,
+    "",
+    "Language  Precision  Recall  F1      Support",
+  ];
+  Object.keys(report.languages)
+    .sort()
+    .forEach((lang) => {
+      const m = report.languages[lang];
+      lines.push(
+        [
+          lang.padEnd(9),
+          percent(m.precision).padStart(9),
+          percent(m.recall).padStart(7),
+          percent(m.f1).padStart(7),
+          String(m.support).padStart(8),
+        ].join(" "),
+      );
+    });
+  lines.push("", "Confusions (expected -> predicted: count)");
+  const confusions: [string, number][] = [];
+  for (const expected in report.confusion) {
+    for (const guess in report.confusion[expected]) {
+      if (guess !== expected) {
+        confusions.push([
+          `${expected} -> ${guess}`,
+          report.confusion[expected][guess],
+        ]);
+      }
+    }
+  }
+  confusions.sort((a, b) => b[1] - a[1]);
+  if (confusions.length === 0) lines.push("  none");
+  confusions.forEach(([pair, count]) => lines.push(`  ${pair}: ${count}`));
+  lines.push("", "Length     Accuracy  Samples");
+  report.lengths.forEach((bucket) => {
+    const range =
+      bucket.max === Infinity
+        ? `${bucket.min}+`
+        : `${bucket.min}-${bucket.max - 1}`;
+    lines.push(
+      `${range.padEnd(10)} ${percent(bucket.accuracy).padStart(8)} ${String(bucket.total).padStart(8)}`,
+    );
+  });
+  return lines.join("\n");
+}
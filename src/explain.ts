@@ -0,0 +1,79 @@
+import {
+  IExplanation,
+  ITrigramContribution,
+} from "./interfaces/IExplanation.js";
+
+// Number of matched and of missing trigrams listed per candidate.
+export const DEFAULT_EXPLAINED_TRIGRAMS = 10;
+
+// What each step of the detection decided the scores by.
+const DECISIONS: Record<IExplanation["decidedBy"], string> = {
+  trigrams: "trigram distances",
+  lexicon: "known words, the text being too short for trigrams",
+  cjk: "Han, kana and Hangul character statistics",
+  script: "the script, which has no trigram models",
+  none: "nothing, the text is undetermined",
+};
+
+/**
+ * Formats one trigram of an explanation, e.g. `"de " #3 +1.5`.
+ * @param item Trigram with its rank and contribution.
+ * @returns Readable trigram.
+ */
+function formatTrigram(item: ITrigramContribution): string {
+  return [
+    JSON.stringify(item.trigram),
+    ...(item.frequency > 1 ? [`x${item.frequency}`] : []),
+    ...(item.rank === undefined ? [] : [`#${item.rank}`]),
+    ...(item.contribution === undefined
+      ? []
+      : [`+${item.contribution.toFixed(1)}`]),
+  ].join(" ");
+}
+
+/**
+ * Renders an explanation from `LanguageGuesser.explain` as readable text.
+ * @param explanation Explanation.
+ * @param trigrams (Optional) Maximum number of matched and of missing trigrams listed per candidate.
+ * @returns Multi-line report.
+ */
+export function formatExplanation(
+  explanation: IExplanation,
+  trigrams = DEFAULT_EXPLAINED_TRIGRAMS,
+): string {
+  const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+  const list = (items: ITrigramContribution[]): string =>
+    [
+      ...items.slice(0, trigrams).map(formatTrigram),
+      ...(items.length > trigrams ? ["..."] : []),
+    ].join(", ");
+  const lines = [
+    `Script: ${explanation.script} (${percent(explanation.scriptShare)} of characters)`,
+    `Analyzed: ${explanation.length} characters, ${explanation.trigrams} distinct trigrams, metric ${explanation.metric}`,
+    `Decided by: ${DECISIONS[explanation.decidedBy]}`,
+  ];
+  if (explanation.candidates.length === 0) lines.push("No candidate.");
+  explanation.candidates.forEach((candidate, i) => {
+    const distance =
+      candidate.distance === undefined
+        ? ""
+        : `, distance ${candidate.distance.toFixed(1)}`;
+    lines.push(
+      "",
+      `${i + 1}. ${candidate.alpha3} ${candidate.language}: score ${candidate.score.toFixed(4)}${distance}`,
+    );
+    if (candidate.distance === undefined) {
+      lines.push(
+        explanation.decidedBy === "trigrams"
+          ? "   No trigram model for this language."
+          : "   Not scored by trigrams.",
+      );
+      return;
+    }
+    lines.push(
+      `   Matched ${candidate.matched.length}/${explanation.trigrams}: ${list(candidate.matched)}`,
+      `   Missing ${candidate.missing.length}/${explanation.trigrams}: ${list(candidate.missing)}`,
+    );
+  });
+  return lines.join("\n");
+}
@@ -0,0 +1,332 @@
+import { LanguageGuesser } from "./language.js";
+import { scripts } from "./regex.js";
+import { DEFAULT_SAMPLE_LENGTH } from "./sampling.js";
+import { normalizeText, resolveNormalization } from "./normalization.js";
+import { IDetectionSettings } from "./interfaces/IDetectionSettings.js";
+import { ICalibratedGuess } from "./interfaces/ICalibratedGuess.js";
+import { IIncrementalOptions } from "./interfaces/IIncrementalOptions.js";
+
+// Longest partial word kept for the next chunk. Longer runs without
+// whitespace, as in Chinese or Thai text, are analyzed anyway.
+export const MAX_PENDING_LENGTH = 1024;
+
+// Characters analyzed between two stability checks, so that early stopping
+// does not guess again after every chunk.
+export const DEFAULT_STABILITY_INTERVAL = 256;
+
+// Chunks accepted by the stream adapter: Node readables and web streams.
+export type TextStream =
+  AsyncIterable<string | Uint8Array> | ReadableStream<string | Uint8Array>;
+
+/**
+ * Finds an HTML tag, code fence or inline code span still open at the end of
+ * a text, which normalization could only strip once complete.
+ * @param text Text to scan.
+ * @returns Where the open markup starts, or -1.
+ */
+function openMarkup(text: string): number {
+  const fences = [...text.matchAll(/```/g)];
+  if (fences.length % 2) return fences[fences.length - 1].index ?? -1;
+  const lineStart = Math.max(
+    text.lastIndexOf("\n") + 1,
+    fences.length ? (fences[fences.length - 1].index ?? 0) + 3 : 0,
+  );
+  const line = text.substring(lineStart);
+  const ticks = line.match(/`/g)?.length ?? 0;
+  const tick = ticks % 2 ? lineStart + line.lastIndexOf("`") : -1;
+  const tag = text.search(/<\/?[a-z][^>]*$/iu);
+  return tick < 0 || (tag >= 0 && tag < tick) ? tag : tick;
+}
+
+/**
+ * Detects the language of text that arrives in chunks.
+ * Trigram frequencies are accumulated across chunks, so the whole input is
+ * analyzed rather than a sample of it, and the current guess can be queried at any time.
+ */
+export class IncrementalDetector {
+  private frequencies: Record<string, number> = {};
+  private scriptCounts: Record<string, number> = {};
+  private letterCount = 0;
+  // Trailing partial word, kept until the next chunk completes it.
+  private pending = "";
+  // Last word analyzed, so trigrams spanning two pieces are counted.
+  private context = "";
+  // True when the last piece was cut inside a word, which the next one continues.
+  private continues = false;
+  // Head of the input, used for scripts without n‑gram models.
+  private head = "";
+  private analyzedLength = 0;
+  // Characters received before normalization.
+  private inputLength = 0;
+  // Characters analyzed at the last stability check.
+  private checkedLength = 0;
+  private history: ICalibratedGuess[] = [];
+  private stable = false;
+  private readonly settings: IDetectionSettings;
+  // Whether normalization collapses whitespace, which then spans pieces too.
+  private readonly collapses: boolean;
+
+  /**
+   * Creates a detector.
+   * @param guesser Guesser whose models and language data are used.
+   * @param options Optional incremental detection options.
+   */
+  constructor(
+    private readonly guesser: LanguageGuesser,
+    private readonly options: IIncrementalOptions = {},
+  ) {
+    const settings = guesser.buildSettings(
+      options.allowList ?? [],
+      options.denyList ?? [],
+    );
+    this.settings = {
+      ...settings,
+      minLength: options.minLength ?? settings.minLength,
+    };
+    this.collapses = resolveNormalization(settings.normalization).length > 0;
+  }
+
+  /**
+   * Number of characters analyzed so far.
+   */
+  get length(): number {
+    return this.analyzedLength;
+  }
+
+  /**
+   * True once the guess has stopped changing and further input can be skipped.
+   */
+  get isStable(): boolean {
+    return this.stable;
+  }
+
+  /**
+   * Adds a chunk of text. Detection is synchronous, so with a lazy registry
+   * the packs must be loaded first (see `ModelRegistry.loadAll`).
+   * @param chunk Next chunk of the input.
+   * @returns True once the guess is stable (see `isStable`).
+   * @throws {ScriptNotLoadedError} If a stability check meets a script whose pack is not loaded yet.
+   */
+  push(chunk: string): boolean {
+    const text = this.pending + chunk;
+    // Only complete words and markup are analyzed; the rest waits for the
+    // next chunk, unless it outgrows MAX_PENDING_LENGTH.
+    let end = text.search(/\s\S*$/) + 1;
+    const open = openMarkup(text.substring(0, end));
+    if (open >= 0) end = open;
+    if (end === 0) {
+      if (text.length <= MAX_PENDING_LENGTH) {
+        this.pending = text;
+        return this.stable;
+      }
+      // A trailing high surrogate waits for the rest of its character.
+      end = /[\uD800-\uDBFF]$/.test(text) ? text.length - 1 : text.length;
+    }
+    this.pending = text.substring(end);
+    this.analyze(text.substring(0, end));
+    const interval =
+      this.options.stabilityInterval ?? DEFAULT_STABILITY_INTERVAL;
+    if (
+      (this.options.earlyStop ?? true) &&
+      this.analyzedLength - this.checkedLength >= interval
+    ) {
+      this.checkedLength = this.analyzedLength;
+      this.checkStability();
+    }
+    return this.stable;
+  }
+
+  /**
+   * Analyzes any buffered partial word. Call when the input is complete.
+   * @returns The final guess.
+   * @throws {ScriptNotLoadedError} If the text's script has a pack that is not loaded yet.
+   */
+  end(): ICalibratedGuess {
+    if (this.pending) {
+      this.analyze(this.pending);
+      this.pending = "";
+    }
+    return this.guess();
+  }
+
+  /**
+   * Returns the current guess for the text analyzed so far.
+   * @returns Guesses with probabilities, confidence and reliability flag.
+   * @throws {ScriptNotLoadedError} If the text's script has a pack that is not loaded yet.
+   */
+  guess(): ICalibratedGuess {
+    const limit = this.options.limit ?? 3;
+    const scriptId = this.getTopScript();
+    if (!this.guesser.registry.getModels(scriptId)) {
+      return this.guesser.toCalibratedGuess(
+        LanguageGuesser.detectCalibrated(
+          this.head,
+          this.settings,
+          this.guesser.registry,
+        ),
+        limit,
+      );
+    }
+    const tuples = Object.entries(this.frequencies);
+    tuples.sort((a, b) => a[1] - b[1]);
+    const minLength = this.settings.minLength ?? 10;
+    const coverage = this.inputLength
+      ? this.analyzedLength / this.inputLength
+      : 0;
+    if (this.analyzedLength < minLength) {
+      return this.guesser.toCalibratedGuess(
+        {
+          probabilities: [["und", 1]],
+          length: this.analyzedLength,
+          margin: 0,
+          missRatio: 1,
+          coverage,
+        },
+        limit,
+      );
+    }
+    return this.guesser.toCalibratedGuess(
+      {
+        ...LanguageGuesser.calibrateTuples(
+          tuples,
+          scriptId,
+          this.analyzedLength,
+          this.settings,
+          this.guesser.registry,
+        ),
+        coverage,
+      },
+      limit,
+    );
+  }
+
+  /**
+   * Feeds a stream into the detector until it ends or the guess is stable,
+   * loading the registry's packs first.
+   * @param stream Node readable, web readable stream or async iterable of chunks.
+   * @returns The final guess.
+   */
+  async consume(stream: TextStream): Promise<ICalibratedGuess> {
+    // Chunks are analyzed synchronously, so every pack must be available.
+    await this.guesser.registry.loadAll();
+    const decoder = new TextDecoder();
+    const decode = (chunk: string | Uint8Array): string =>
+      typeof chunk === "string"
+        ? chunk
+        : decoder.decode(chunk, { stream: true });
+    if ("getReader" in stream) {
+      const reader = stream.getReader();
+      try {
+        for (;;) {
+          const { done, value } = await reader.read();
+          if (done || this.push(decode(value))) break;
+        }
+      } finally {
+        await reader.cancel();
+      }
+    } else {
+      for await (const chunk of stream) {
+        if (this.push(decode(chunk))) break;
+      }
+    }
+    this.push(decoder.decode());
+    return this.end();
+  }
+
+  /**
+   * Discards everything analyzed so far.
+   */
+  reset(): void {
+    this.frequencies = {};
+    this.scriptCounts = {};
+    this.letterCount = 0;
+    this.pending = "";
+    this.context = "";
+    this.continues = false;
+    this.head = "";
+    this.analyzedLength = 0;
+    this.inputLength = 0;
+    this.checkedLength = 0;
+    this.history = [];
+    this.stable = false;
+  }
+
+  /**
+   * Accumulates trigram frequencies and script counts for a piece of text.
+   * @param piece Text made of complete words and markup, unless they
+   * outgrew `MAX_PENDING_LENGTH`.
+   */
+  private analyze(piece: string): void {
+    this.inputLength += piece.length;
+    // Pieces end on word boundaries outside HTML tags and Markdown code, so
+    // the noise normalization strips is never split, unless a word or some
+    // markup is longer than MAX_PENDING_LENGTH.
+    let text = normalizeText(piece, this.settings.normalization);
+    // Whitespace collapsed at the end of the last piece absorbs this one's.
+    if (this.collapses && this.analyzedLength && !this.continues) {
+      text = text.replace(/^\s/u, "");
+    }
+    // A piece cut inside a word is joined to it without a space.
+    const joined = `${this.context}${this.continues ? "" : " "}${text}`;
+    if (text) this.continues = !/\s$/.test(text);
+    if (!text.trim()) return;
+    // Trigrams of "context text" minus those of "context" alone are exactly
+    // the trigrams the piece adds when the input is analyzed as a whole.
+    this.addTuples(LanguageGuesser.asTuples(joined), 1);
+    this.addTuples(LanguageGuesser.asTuples(this.context), -1);
+    // Only the end of a word too long to buffer is kept.
+    this.context = (joined.trim().split(/\s+/).pop() ?? "").slice(
+      -MAX_PENDING_LENGTH,
+    );
+    for (const key in scripts) {
+      const count = text.match(scripts[key])?.length ?? 0;
+      if (count) this.scriptCounts[key] = (this.scriptCounts[key] || 0) + count;
+    }
+    this.letterCount += text.match(/\p{Letter}/gu)?.length ?? 0;
+    if (this.head.length < DEFAULT_SAMPLE_LENGTH) {
+      this.head = (this.head + text).substring(0, DEFAULT_SAMPLE_LENGTH);
+    }
+    this.analyzedLength += text.length;
+  }
+
+  /**
+   * Adds (or subtracts) trigram frequencies.
+   * @param tuples List of (trigram, frequency) tuples.
+   * @param sign 1 to add, -1 to subtract.
+   */
+  private addTuples(tuples: [string, number][], sign: 1 | -1): void {
+    tuples.forEach(([trigram, freq]) => {
+      const total = (this.frequencies[trigram] || 0) + sign * freq;
+      if (total > 0) this.frequencies[trigram] = total;
+      else delete this.frequencies[trigram];
+    });
+  }
+
+  /**
+   * Determines the most prominent script of the text analyzed so far,
+   * following the same rules as `LanguageGuesser.getTopScript`.
+   * @returns Script identifier.
+   */
+  private getTopScript(): string {
+    if ((this.scriptCounts.Latin ?? 0) > this.letterCount / 2) return "Latin";
+    const [top] = Object.entries(this.scriptCounts).sort((a, b) => b[1] - a[1]);
+    return top ? top[0] : "und";
+  }
+
+  /**
+   * Marks the detector stable once the top language has been the same, with
+   * a confidence that moved less than the tolerance, for `patience` checks in a row.
+   */
+  private checkStability(): void {
+    const patience = this.options.patience ?? 3;
+    const tolerance = this.options.tolerance ?? 0.01;
+    const current = this.guess();
+    this.history = [...this.history, current].slice(-patience);
+    if (!current.isReliable || this.history.length < patience) return;
+    this.stable = this.history.every(
+      (entry) =>
+        entry.results[0].alpha3 === current.results[0].alpha3 &&
+        Math.abs(entry.confidence - current.confidence) <= tolerance,
+    );
+  }
+}
@@ -1 +1,130 @@
 export { LanguageGuesser } from "./language.js";
+export { ModelRegistry } from "./registry.js";
+export { LanguageCatalog, languageData } from "./languages.js";
+export type { LanguageCodeSystem } from "./languages.js";
+export { IncrementalDetector } from "./incremental.js";
+export { DEFAULT_BATCH_CHUNK_SIZE } from "./batch.js";
+export { DEFAULT_EXPLAINED_TRIGRAMS, formatExplanation } from "./explain.js";
+export { toLanguageTag } from "./tags.js";
+export { getScriptDistribution, splitByScript } from "./multiscript.js";
+export {
+  extractBlocks,
+  extractHtml,
+  extractJson,
+  extractMarkdown,
+} from "./documents.js";
+export type { DocumentFormat } from "./documents.js";
+export {
+  LEXICON_MAX_LENGTH,
+  LEXICON_WEIGHT,
+  lexiconData,
+  tokenizeWords,
+  scoreLexicon,
+  combineScores,
+} from "./lexicon.js";
+export type { LexiconValue } from "./lexicon.js";
+export {
+  CONFUSABLE_MARGIN,
+  confusableGroups,
+  disambiguate,
+} from "./confusables.js";
+export {
+  scriptLanguages,
+  getScriptPurity,
+  detectScriptLanguages,
+} from "./script-languages.js";
+export { ROMANIZED_FAMILY, getModelFamilies } from "./romanized.js";
+export {
+  MIN_PRIOR,
+  DEFAULT_UNSEEN_SHARE,
+  applyPriors,
+  estimatePriors,
+} from "./priors.js";
+export {
+  DEFAULT_NORMALIZATION,
+  normalizationSteps,
+  normalizeText,
+} from "./normalization.js";
+export {
+  MISSING_TRIGRAM_PENALTY,
+  rankMetric,
+  bayesMetric,
+  cosineMetric,
+  distanceMetrics,
+} from "./metrics.js";
+export {
+  BINARY_MODEL_VERSION,
+  hashTrigram,
+  buildBinaryIndex,
+  lookupRank,
+  encodeModels,
+  decodeModels,
+} from "./binary.js";
+export type { ModelIndex, BinaryModel } from "./binary.js";
+export type { TextStream } from "./incremental.js";
+export { ScriptNotLoadedError, UnknownLanguageError } from "./errors.js";
+export { packLoaders } from "./packs/index.js";
+export type { PackLoader } from "./packs/index.js";
+export type { ILanguagePack } from "./interfaces/ILanguagePack.js";
+export {
+  DEFAULT_PROFILE_SIZE,
+  trainProfile,
+  serializeProfile,
+  trainModels,
+} from "./training.js";
+export {
+  DEFAULT_LENGTH_BUCKETS,
+  parseDataset,
+  evaluate,
+  computeLanguageMetrics,
+  formatReport,
+} from "./evaluation.js";
+export type { NgramValue } from "./ngrams.js";
+export type { ILanguageData } from "./interfaces/ILanguageData.js";
+export type { ILanguageGuess } from "./interfaces/ILanguageGuess.js";
+export type { ITaggedGuess } from "./interfaces/ITaggedGuess.js";
+export type { IGuessOptions } from "./interfaces/IGuessOptions.js";
+export type { IBatchOptions } from "./interfaces/IBatchOptions.js";
+export type { IBatchResult } from "./interfaces/IBatchResult.js";
+export type { IExplainOptions } from "./interfaces/IExplainOptions.js";
+export type {
+  IExplanation,
+  IExplainedCandidate,
+  ITrigramContribution,
+} from "./interfaces/IExplanation.js";
+export type {
+  IScriptBreakdown,
+  IScriptPortion,
+} from "./interfaces/IScriptBreakdown.js";
+export type { ICalibratedGuess } from "./interfaces/ICalibratedGuess.js";
+export type { ICalibratedDetection } from "./interfaces/ICalibratedDetection.js";
+export type { ISegmentationOptions } from "./interfaces/ISegmentationOptions.js";
+export type { ITextSegment } from "./interfaces/ITextSegment.js";
+export type { IDetectionSettings } from "./interfaces/IDetectionSettings.js";
+export type {
+  IDetectionTrace,
+  IInstrumentation,
+  IPhaseTiming,
+} from "./interfaces/IInstrumentation.js";
+export type { ICacheOptions, ICacheStats } from "./interfaces/ICacheOptions.js";
+export type { IDocumentOptions } from "./interfaces/IDocumentOptions.js";
+export type {
+  IDocumentBlock,
+  IDocumentGuess,
+  ITextBlock,
+} from "./interfaces/IDocumentGuess.js";
+export type { ISamplingOptions } from "./interfaces/ISamplingOptions.js";
+export type { IIncrementalOptions } from "./interfaces/IIncrementalOptions.js";
+export type { IDistanceMetric } from "./interfaces/IDistanceMetric.js";
+export type { IBinaryModelIndex } from "./interfaces/IBinaryModelIndex.js";
+export type { INormalizationStep } from "./interfaces/INormalizationStep.js";
+export type {
+  IConfusableGroup,
+  ILanguageMarkers,
+} from "./interfaces/IConfusableGroup.js";
+export type {
+  IEvaluationReport,
+  ILabelledSample,
+  ILanguageMetrics,
+  ILengthBucket,
+} from "./interfaces/IEvaluationReport.js";
@@ -0,0 +1,94 @@
+import {
+  IDetectionTrace,
+  IInstrumentation,
+  IPhaseTiming,
+} from "./interfaces/IInstrumentation.js";
+
+// Phases of a detection, in the order they run.
+export type DetectionPhase = IPhaseTiming["phase"];
+
+// Clock in milliseconds. `performance` is global in browsers and from Node 16;
+// older Node versions fall back to the wall clock.
+const now: () => number =
+  typeof performance === "undefined"
+    ? (): number => Date.now()
+    : (): number => performance.now();
+
+// Trace being collected, with the clock reading it started at.
+type ActiveTrace = IDetectionTrace & { origin: number };
+
+// Trace of the detection running on this thread. Detection is synchronous,
+// so at most one is collected at a time; nested detections add to it.
+let active: ActiveTrace | undefined;
+
+/**
+ * Runs a detection and reports its trace to the instrumentation, if any.
+ * A detection started while another one is traced is reported as part of it.
+ * @param instrumentation Receiver of the trace, from the detection settings.
+ * @param run Detection to run.
+ * @param decide Extracts the chosen [language, score] tuple from the result.
+ * @returns The result of the detection.
+ */
+export function traceDetection<T>(
+  instrumentation: IInstrumentation | undefined,
+  run: () => T,
+  decide: (result: T) => [string, number],
+): T {
+  if (!instrumentation || active) return run();
+  const trace: ActiveTrace = {
+    origin: now(),
+    startTime: Date.now(),
+    duration: 0,
+    phases: [],
+    script: "und",
+    candidates: 0,
+    length: 0,
+    language: "und",
+    score: 0,
+  };
+  active = trace;
+  let result: T;
+  try {
+    result = run();
+  } finally {
+    active = undefined;
+  }
+  const { origin, ...fields } = trace;
+  [fields.language, fields.score] = decide(result);
+  instrumentation.onDetection({
+    ...fields,
+    duration: now() - origin,
+  });
+  return result;
+}
+
+/**
+ * Times a phase of the traced detection, if any.
+ * @param phase Phase.
+ * @param run Work done in the phase.
+ * @returns The result of the work.
+ */
+export function measurePhase<T>(phase: DetectionPhase, run: () => T): T {
+  const trace = active;
+  if (!trace) return run();
+  const start = now();
+  try {
+    return run();
+  } finally {
+    trace.phases.push({
+      phase,
+      start: start - trace.origin,
+      duration: now() - start,
+    });
+  }
+}
+
+/**
+ * Records facts about the traced detection, if any.
+ * @param fields Script, analyzed length or candidate count.
+ */
+export function annotateTrace(
+  fields: Partial<Pick<IDetectionTrace, "script" | "length" | "candidates">>,
+): void {
+  if (active) Object.assign(active, fields);
+}
@@ -0,0 +1,17 @@
+/**
+ * Opções de `LanguageGuesser.guessBatch`.
+ */
+export interface IBatchOptions {
+  /** Lista de idiomas permitidos (códigos alpha‑2 ou alpha‑3). */
+  allowList?: string[];
+  /** Lista de idiomas a serem ignorados (códigos alpha‑2 ou alpha‑3). */
+  denyList?: string[];
+  /** Número máximo de resultados por texto (padrão: 3). */
+  limit?: number;
+  /** Número de worker threads; 0 processa os textos na thread atual (padrão: 0). */
+  workers?: number;
+  /** Número de textos enviados a um worker por vez (padrão: 256). */
+  chunkSize?: number;
+  /** Script executado por cada worker (padrão: o `batch-worker.js` do pacote). */
+  workerScript?: string | URL;
+}
@@ -0,0 +1,13 @@
+import { ILanguageGuess } from "./ILanguageGuess.js";
+
+/**
+ * Resultado de um texto em `LanguageGuesser.guessBatch`.
+ */
+export interface IBatchResult {
+  /** Posição do texto na entrada. */
+  index: number;
+  /** Palpites do texto; vazio quando `error` está presente. */
+  results: ILanguageGuess[];
+  /** Mensagem do erro que impediu a detecção deste texto. */
+  error?: string;
+}
@@ -0,0 +1,20 @@
+/**
+ * Índice compacto de um modelo de n‑gramas: uma tabela hash com
+ * endereçamento aberto, armazenada em arrays tipados. Cada trigrama é
+ * identificado pelo seu hash FNV‑1a de 32 bits e conferido com o texto
+ * do trigrama, para que colisões de hash não confundam trigramas.
+ */
+export interface IBinaryModelIndex {
+  /** Hashes dos trigramas; o tamanho é uma potência de 2 e 0 marca posições vazias. */
+  hashes: Uint32Array;
+  /** Posição no modelo do trigrama de cada hash, nas mesmas posições de `hashes`. */
+  ranks: Uint16Array;
+  /** Trigramas do modelo, do mais ao menos frequente, indexados por `ranks`. */
+  trigrams: string[];
+}
+
+/**
+ * Índice de consulta das posições dos trigramas de um modelo: um objeto
+ * simples (trigrama -> posição) ou um índice binário.
+ */
+export type ModelIndex = Record<string, number> | IBinaryModelIndex;
@@ -0,0 +1,23 @@
+/**
+ * Limites do cache de resultados de um `LanguageGuesser`.
+ */
+export interface ICacheOptions {
+  /** Número máximo de resultados guardados; os menos usados saem primeiro (padrão: 1000). */
+  maxSize?: number;
+  /** Tempo de vida de um resultado, em milissegundos (padrão: sem limite). */
+  ttl?: number;
+}
+
+/**
+ * Estatísticas do cache de resultados, devolvidas por `LanguageGuesser.getCacheStats`.
+ */
+export interface ICacheStats {
+  /** Detecções respondidas pelo cache. */
+  hits: number;
+  /** Detecções calculadas por não estarem no cache. */
+  misses: number;
+  /** Resultados descartados por excederem o tamanho ou o tempo de vida. */
+  evictions: number;
+  /** Número de resultados guardados. */
+  size: number;
+}
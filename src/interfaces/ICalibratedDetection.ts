@@ -0,0 +1,15 @@
+/**
+ * Resultado de uma detecção com probabilidades calibradas.
+ */
+export interface ICalibratedDetection {
+  /** Lista ordenada de [idioma, probabilidade]; as probabilidades somam 1. */
+  probabilities: [string, number][];
+  /** Número de caracteres analisados. */
+  length: number;
+  /** Diferença de distância por trigrama entre o primeiro e o segundo candidato, entre 0 e 1. */
+  margin: number;
+  /** Proporção de trigramas ausentes do modelo do primeiro candidato. */
+  missRatio: number;
+  /** Proporção do texto amostrado que restou após a normalização (padrão: 1). */
+  coverage?: number;
+}
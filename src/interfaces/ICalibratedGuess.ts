@@ -0,0 +1,21 @@
+import { ILanguageGuess } from "./ILanguageGuess.js";
+
+/**
+ * Palpites de idioma com probabilidades calibradas e indicador de confiabilidade.
+ */
+export interface ICalibratedGuess {
+  /** Palpites ordenados; `score` é a probabilidade de cada idioma entre os palpites retornados. */
+  results: ILanguageGuess[];
+  /** Indica se o palpite principal é confiável. */
+  isReliable: boolean;
+  /** Probabilidade do palpite principal entre todos os candidatos, inclusive os não retornados. */
+  confidence: number;
+  /** Diferença de distância por trigrama entre o primeiro e o segundo candidato, entre 0 e 1. */
+  margin: number;
+  /** Proporção de trigramas ausentes do modelo do primeiro candidato. */
+  missRatio: number;
+  /** Número de caracteres analisados, após amostragem e normalização. */
+  length: number;
+  /** Proporção do texto amostrado que restou após a normalização; valores baixos indicam um texto com muito ruído. */
+  coverage: number;
+}
@@ -0,0 +1,33 @@
+import { LexiconValue } from "../lexicon.js";
+
+/**
+ * Marcas que distinguem um idioma dos demais do seu grupo.
+ */
+export interface ILanguageMarkers {
+  /** Palavras características (lista ou string separada por espaços), comparadas sem diacríticos. */
+  words?: LexiconValue;
+  /** Caracteres característicos (ex.: "ãõ"), procurados no texto em minúsculas. */
+  chars?: string;
+  /** Expressões regulares (código‑fonte) de grafias características. */
+  patterns?: string[];
+}
+
+/**
+ * Grupo de idiomas próximos que os modelos de trigramas costumam confundir.
+ */
+export interface IConfusableGroup {
+  /** Nome do grupo (ex.: "ibero-romance"). */
+  name: string;
+  /** Marcas de cada idioma do grupo (código alpha‑3). */
+  markers: Record<string, ILanguageMarkers>;
+  /**
+   * Distância máxima do placar do primeiro colocado, como fração dele, para
+   * que um idioma do grupo seja reclassificado (padrão: 0.15).
+   */
+  margin?: number;
+  /**
+   * Idioma do grupo posto à frente quando o texto não tem marcas de nenhum
+   * dos candidatos (ex.: o mais difundido do grupo).
+   */
+  fallback?: string;
+}
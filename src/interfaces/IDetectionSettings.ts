@@ -1,3 +1,10 @@
+import { ISamplingOptions } from "./ISamplingOptions.js";
+import { IDistanceMetric } from "./IDistanceMetric.js";
+import { INormalizationStep } from "./INormalizationStep.js";
+import { IConfusableGroup } from "./IConfusableGroup.js";
+import { IInstrumentation } from "./IInstrumentation.js";
+import { ICacheOptions } from "./ICacheOptions.js";
+
 /**
  * Configurações opcionais para a detecção de idioma.
  */
@@ -8,4 +15,44 @@ export interface IDetectionSettings {
   allowList?: string[];
   /** Lista de idiomas a serem ignorados (códigos alpha‑2 ou alpha‑3). */
   denyList?: string[];
+  /** Estratégia de amostragem de textos longos (padrão: primeiros 2048 caracteres). */
+  sampling?: ISamplingOptions;
+  /** Métrica de distância: "rank" (padrão), "bayes", "cosine" ou uma implementação própria. */
+  metric?: "rank" | "bayes" | "cosine" | IDistanceMetric;
+  /** Combina o placar dos trigramas com listas de palavras frequentes em textos curtos (padrão: false). */
+  lexicon?: boolean;
+  /**
+   * Pré‑processamento antes da extração de trigramas: true para as etapas padrão
+   * ou uma lista de nomes de etapas embutidas e etapas próprias (padrão: nenhum).
+   */
+  normalization?: boolean | (string | INormalizationStep)[];
+  /**
+   * Reclassifica idiomas próximos (ex.: espanhol e galego) por palavras e grafias
+   * características: false para desativar ou grupos próprios no lugar dos
+   * embutidos (padrão: grupos embutidos).
+   */
+  confusables?: boolean | IConfusableGroup[];
+  /**
+   * Pontua também idiomas digitados em letras latinas (hindi, árabe, russo e
+   * grego romanizados) junto aos modelos latinos (padrão: false).
+   */
+  romanized?: boolean;
+  /**
+   * Probabilidade a priori de cada idioma (códigos alpha‑2 ou alpha‑3), combinada
+   * com as distâncias; os idiomas ausentes dividem o restante (padrão: todos iguais).
+   */
+  priors?: Record<string, number>;
+  /**
+   * Recebe, ao fim de cada detecção, a duração de cada fase, o número de
+   * candidatos e o idioma escolhido (padrão: nenhum). Não é chamado nas
+   * threads de trabalho da detecção em lote.
+   */
+  instrumentation?: IInstrumentation;
+  /**
+   * Guarda os resultados de `guess`, `guessBest` e `guessMixed` por texto
+   * analisado e pelas configurações que afetam o placar: true para os
+   * limites padrão ou limites próprios (padrão: false). Respostas do cache
+   * não são entregues à `instrumentation`.
+   */
+  cache?: boolean | ICacheOptions;
 }
@@ -0,0 +1,39 @@
+import { ModelIndex } from "./IBinaryModelIndex.js";
+
+/**
+ * Estratégia de cálculo da distância entre os trigramas de um texto e um modelo.
+ * Distâncias menores indicam maior semelhança. Para que a pontuação e a
+ * calibração funcionem, a distância deve variar de 0 (correspondência perfeita)
+ * até `MISSING_TRIGRAM_PENALTY` por trigrama distinto (nenhuma correspondência).
+ */
+export interface IDistanceMetric {
+  /** Nome da métrica. */
+  name: string;
+  /**
+   * Calcula a distância.
+   * @param trigrams Lista de tuplas (trigrama, frequência).
+   * @param model Modelo de n‑gramas, do mais ao menos frequente.
+   * @param modelIndex Índice do modelo; `lookupRank` retorna a posição de um trigrama.
+   */
+  distance(
+    trigrams: [string, number][],
+    model: string[],
+    modelIndex: ModelIndex,
+  ): number;
+  /**
+   * Opcional: decompõe a distância por trigrama, para `LanguageGuesser.explain`.
+   * A soma das contribuições deve ser igual a `distance`.
+   * @returns Contribuição de cada trigrama, na ordem de `trigrams`.
+   */
+  contributions?(
+    trigrams: [string, number][],
+    model: string[],
+    modelIndex: ModelIndex,
+  ): number[];
+  /**
+   * Opcional: diferença de distância que divide por e as chances de um
+   * candidato, na escala desta métrica. Converte as probabilidades a priori
+   * em distâncias (padrão: `DISTANCE_TEMPERATURE`, a escala da métrica "rank").
+   */
+  temperature?: number;
+}
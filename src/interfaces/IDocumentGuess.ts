@@ -0,0 +1,35 @@
+import { ILanguageGuess } from "./ILanguageGuess.js";
+
+/**
+ * Bloco de texto legível extraído de um documento.
+ */
+export interface ITextBlock {
+  /** Texto do bloco, sem marcação e com os espaços normalizados. */
+  text: string;
+  /** Posição inicial do bloco no documento (inclusiva). */
+  start: number;
+  /** Posição final do bloco no documento (exclusiva). */
+  end: number;
+  /** Idioma declarado para o bloco (atributo `lang` do HTML, ex.: "pt-BR"). */
+  hint?: string;
+  /** Caminho do campo no JSON (ex.: "items[0].title"). */
+  path?: string;
+}
+
+/**
+ * Bloco de um documento com os palpites do seu texto.
+ */
+export interface IDocumentBlock extends ITextBlock {
+  /** Palpites para o bloco. */
+  results: ILanguageGuess[];
+}
+
+/**
+ * Resultado da detecção de um documento estruturado.
+ */
+export interface IDocumentGuess {
+  /** Palpites para o texto de todos os blocos. */
+  results: ILanguageGuess[];
+  /** Blocos de texto, na ordem em que aparecem no documento. */
+  blocks: IDocumentBlock[];
+}
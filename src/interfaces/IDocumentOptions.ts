@@ -0,0 +1,20 @@
+/**
+ * Opções de `LanguageGuesser.guessDocument`.
+ */
+export interface IDocumentOptions {
+  /** Formato do documento. */
+  format: "html" | "markdown" | "json";
+  /** Lista de idiomas permitidos (códigos alpha‑2 ou alpha‑3). */
+  allowList?: string[];
+  /** Lista de idiomas a serem ignorados (códigos alpha‑2 ou alpha‑3). */
+  denyList?: string[];
+  /** Número máximo de resultados, do documento e de cada bloco (padrão: 3). */
+  limit?: number;
+  /**
+   * Campos do JSON analisados: nomes (ex.: "title") ou caminhos sem índices
+   * (ex.: "items.title") (padrão: todos os textos).
+   */
+  fields?: string[];
+  /** Usa os atributos `lang` do HTML como probabilidades a priori (padrão: true). */
+  langHints?: boolean;
+}
@@ -0,0 +1,59 @@
+/**
+ * Amostra rotulada de um conjunto de avaliação.
+ */
+export interface ILabelledSample {
+  /** Texto a ser detectado. */
+  text: string;
+  /** Código do idioma esperado (alpha‑2 ou alpha‑3). */
+  label: string;
+}
+
+/**
+ * Métricas de um idioma na avaliação.
+ */
+export interface ILanguageMetrics {
+  /** Proporção de previsões deste idioma que estavam corretas. */
+  precision: number;
+  /** Proporção de amostras deste idioma detectadas corretamente. */
+  recall: number;
+  /** Média harmônica de precisão e revocação. */
+  f1: number;
+  /** Número de amostras deste idioma. */
+  support: number;
+  /** Número de vezes que este idioma foi previsto. */
+  predicted: number;
+}
+
+/**
+ * Acurácia de uma faixa de tamanho de texto.
+ */
+export interface ILengthBucket {
+  /** Tamanho mínimo (inclusivo). */
+  min: number;
+  /** Tamanho máximo (exclusivo). */
+  max: number;
+  /** Número de amostras na faixa. */
+  total: number;
+  /** Número de amostras detectadas corretamente. */
+  correct: number;
+  /** Acurácia da faixa. */
+  accuracy: number;
+}
+
+/**
+ * Relatório de avaliação da detecção de idioma.
+ */
+export interface IEvaluationReport {
+  /** Número de amostras avaliadas. */
+  total: number;
+  /** Número de amostras detectadas corretamente. */
+  correct: number;
+  /** Acurácia geral. */
+  accuracy: number;
+  /** Métricas por idioma (código alpha‑3). */
+  languages: Record<string, ILanguageMetrics>;
+  /** Matriz de confusão: confusion[esperado][previsto] = quantidade. */
+  confusion: Record<string, Record<string, number>>;
+  /** Acurácia por faixa de tamanho de texto. */
+  lengths: ILengthBucket[];
+}
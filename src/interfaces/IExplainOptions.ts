@@ -0,0 +1,11 @@
+/**
+ * Opções de `LanguageGuesser.explain`.
+ */
+export interface IExplainOptions {
+  /** Lista de idiomas permitidos (códigos alpha‑2 ou alpha‑3). */
+  allowList?: string[];
+  /** Lista de idiomas a serem ignorados (códigos alpha‑2 ou alpha‑3). */
+  denyList?: string[];
+  /** Número de candidatos explicados (padrão: 3). */
+  limit?: number;
+}
@@ -0,0 +1,53 @@
+import { ILanguageGuess } from "./ILanguageGuess.js";
+
+/**
+ * Trigrama do texto e seu peso na distância até um modelo.
+ */
+export interface ITrigramContribution {
+  /** Trigrama. */
+  trigram: string;
+  /** Número de ocorrências no texto. */
+  frequency: number;
+  /** Posição no modelo, ou undefined se o modelo não contém o trigrama. */
+  rank?: number;
+  /** Parcela da distância devida ao trigrama, quando a métrica a informa. */
+  contribution?: number;
+}
+
+/**
+ * Candidato de `LanguageGuesser.explain`, com os trigramas que levaram à sua pontuação.
+ */
+export interface IExplainedCandidate extends ILanguageGuess {
+  /** Distância até o modelo do idioma; ausente quando a detecção não foi decidida por trigramas ou o idioma não tem modelo. */
+  distance?: number;
+  /** Trigramas encontrados no modelo, do mais ao menos frequente no modelo. */
+  matched: ITrigramContribution[];
+  /** Trigramas ausentes do modelo, do mais ao menos frequente no texto. */
+  missing: ITrigramContribution[];
+}
+
+/**
+ * Explicação de uma detecção: o sistema de escrita e os trigramas por trás de cada candidato.
+ */
+export interface IExplanation {
+  /**
+   * Etapa que decidiu a detecção: distâncias de trigramas ("trigrams"),
+   * palavras conhecidas de um texto curto demais para trigramas ("lexicon"),
+   * estatísticas de caracteres Han, kana e Hangul ("cjk"), o sistema de
+   * escrita sem modelo ("script") ou nenhuma, com o texto indeterminado ("none").
+   * Os candidatos só listam trigramas quando a etapa é "trigrams".
+   */
+  decidedBy: "trigrams" | "lexicon" | "cjk" | "script" | "none";
+  /** Sistema de escrita predominante (chave de `scripts`, ex.: "Latin"). */
+  script: string;
+  /** Proporção dos caracteres do texto neste sistema de escrita. */
+  scriptShare: number;
+  /** Nome da métrica de distância. */
+  metric: string;
+  /** Número de caracteres analisados, após amostragem e normalização. */
+  length: number;
+  /** Número de trigramas distintos do texto. */
+  trigrams: number;
+  /** Candidatos, do mais ao menos provável; `score` é a pontuação final de `guess`. */
+  candidates: IExplainedCandidate[];
+}
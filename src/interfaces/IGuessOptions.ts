@@ -0,0 +1,17 @@
+import { ISegmentationOptions } from "./ISegmentationOptions.js";
+
+/**
+ * Opções de `LanguageGuesser.detect`.
+ */
+export interface IGuessOptions {
+  /** Lista de idiomas permitidos (códigos alpha‑2 ou alpha‑3). */
+  allowList?: string[];
+  /** Lista de idiomas a serem ignorados (códigos alpha‑2 ou alpha‑3). */
+  denyList?: string[];
+  /** Número máximo de resultados (padrão: 3). */
+  limit?: number;
+  /** Agrega palpites de trechos do texto, para textos com vários idiomas (padrão: false). */
+  mixed?: boolean;
+  /** Parâmetros de segmentação usados quando `mixed` é verdadeiro. */
+  segmentation?: ISegmentationOptions;
+}
@@ -0,0 +1,21 @@
+/**
+ * Opções da detecção incremental.
+ */
+export interface IIncrementalOptions {
+  /** Lista de idiomas permitidos (códigos alpha‑2 ou alpha‑3). */
+  allowList?: string[];
+  /** Lista de idiomas a serem ignorados (códigos alpha‑2 ou alpha‑3). */
+  denyList?: string[];
+  /** Número mínimo de caracteres para realizar a detecção. */
+  minLength?: number;
+  /** Número máximo de resultados (padrão: 3). */
+  limit?: number;
+  /** Interrompe a análise quando o palpite se estabiliza (padrão: true). */
+  earlyStop?: boolean;
+  /** Número de palpites consecutivos iguais para considerar o resultado estável (padrão: 3). */
+  patience?: number;
+  /** Variação máxima de confiança entre palpites estáveis (padrão: 0.01). */
+  tolerance?: number;
+  /** Número de caracteres analisados entre verificações de estabilidade (padrão: 256). */
+  stabilityInterval?: number;
+}
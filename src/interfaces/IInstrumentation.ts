@@ -0,0 +1,45 @@
+/**
+ * Duração de uma fase da detecção.
+ */
+export interface IPhaseTiming {
+  /**
+   * Fase: detecção do sistema de escrita, extração de trigramas, cálculo das
+   * distâncias ou pontuação dos candidatos.
+   */
+  phase: "script" | "trigrams" | "distances" | "scoring";
+  /** Início da fase, em milissegundos desde o início da detecção. */
+  start: number;
+  /** Duração da fase, em milissegundos. */
+  duration: number;
+}
+
+/**
+ * Registro de uma detecção, entregue a `IInstrumentation.onDetection`.
+ */
+export interface IDetectionTrace {
+  /** Início da detecção, em milissegundos desde a época Unix. */
+  startTime: number;
+  /** Duração total da detecção, em milissegundos. */
+  duration: number;
+  /** Fases medidas, na ordem em que ocorreram. */
+  phases: IPhaseTiming[];
+  /** Sistema de escrita predominante (chave de `scripts`), ou "und" se o texto é curto demais. */
+  script: string;
+  /** Número de candidatos pontuados, após as listas de permissão e bloqueio. */
+  candidates: number;
+  /** Número de caracteres analisados, após amostragem e normalização. */
+  length: number;
+  /** Idioma escolhido (alpha‑3), ou "und" se indeterminado. */
+  language: string;
+  /** Placar ou probabilidade do idioma escolhido. */
+  score: number;
+}
+
+/**
+ * Receptor dos registros de detecção, ex.: um adaptador para spans do
+ * OpenTelemetry ou contadores do Prometheus.
+ */
+export interface IInstrumentation {
+  /** Chamado ao fim de cada detecção concluída. */
+  onDetection(trace: IDetectionTrace): void;
+}
@@ -4,8 +4,28 @@
 export interface ILanguageData {
   /** Código ISO 639‑1 (alpha‑2). */
   alpha2: string;
-  /** Código ISO 639‑2 (alpha‑3). */
+  /** Código ISO 639‑3 (alpha‑3). */
   alpha3: string;
   /** Nome do idioma. */
   name: string;
+  /** Nome do idioma no próprio idioma. */
+  nativeName?: string;
+  /**
+   * Código ISO 639‑2/B (bibliográfico). Omitido quando igual ao alpha‑3;
+   * vazio quando o idioma não tem código ISO 639‑2.
+   */
+  bibliographic?: string;
+  /**
+   * Código ISO 639‑2/T (terminológico). Omitido quando igual ao alpha‑3;
+   * vazio quando o idioma não tem código ISO 639‑2.
+   */
+  terminology?: string;
+  /** Código ISO 639‑3 da macrolíngua à qual o idioma pertence. */
+  macrolanguage?: string;
+  /** Códigos ISO 639‑3 dos idiomas individuais, quando o idioma é uma macrolíngua. */
+  members?: string[];
+  /** Códigos obsoletos ou alternativos que também identificam o idioma. */
+  aliases?: string[];
+  /** Códigos ISO 15924 das escritas em que o idioma é habitualmente escrito. */
+  scripts?: string[];
 }
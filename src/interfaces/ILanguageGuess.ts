@@ -0,0 +1,13 @@
+/**
+ * Representa um palpite de idioma.
+ */
+export interface ILanguageGuess {
+  /** Código ISO 639‑2 (alpha‑3). */
+  alpha3: string;
+  /** Código ISO 639‑1 (alpha‑2). */
+  alpha2: string;
+  /** Nome do idioma. */
+  language: string;
+  /** Pontuação do idioma. */
+  score: number;
+}
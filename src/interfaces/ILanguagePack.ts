@@ -0,0 +1,11 @@
+import { NgramValue } from "../ngrams.js";
+
+/**
+ * Pacote com os modelos de n‑gramas de um sistema de escrita.
+ */
+export interface ILanguagePack {
+  /** Identificador do sistema de escrita (ex.: "Latin", "Cyrillic"). */
+  script: string;
+  /** Modelos por idioma (código alpha‑3). */
+  models: Record<string, NgramValue>;
+}
@@ -0,0 +1,13 @@
+/**
+ * Etapa de pré‑processamento aplicada ao texto antes da extração de trigramas.
+ */
+export interface INormalizationStep {
+  /** Nome da etapa. */
+  name: string;
+  /**
+   * Transforma o texto. Ruídos devem ser substituídos por espaços, para não
+   * juntar as palavras vizinhas.
+   * @param text Texto a ser transformado.
+   */
+  apply(text: string): string;
+}
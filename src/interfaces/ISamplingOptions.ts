@@ -0,0 +1,11 @@
+/**
+ * Estratégia de amostragem do texto analisado.
+ */
+export interface ISamplingOptions {
+  /** "head" (início do texto, padrão), "spread" (trechos distribuídos) ou "full" (texto completo). */
+  strategy?: "head" | "spread" | "full";
+  /** Número máximo de caracteres analisados (padrão: 2048). */
+  maxLength?: number;
+  /** Número de trechos usados pela estratégia "spread" (padrão: 8). */
+  slices?: number;
+}
@@ -0,0 +1,25 @@
+import { ITaggedGuess } from "./ITaggedGuess.js";
+
+/**
+ * Parte de um texto escrita em um único sistema de escrita.
+ */
+export interface IScriptPortion {
+  /** Sistema de escrita (chave de `scripts`, ex.: "Cyrillic"). */
+  script: string;
+  /** Proporção dos caracteres do texto neste sistema de escrita. */
+  coverage: number;
+  /** Palavras do texto neste sistema de escrita. */
+  text: string;
+  /** Palpites para esta parte, comparada apenas aos modelos do seu sistema de escrita. */
+  results: ITaggedGuess[];
+}
+
+/**
+ * Resultado da detecção de um texto com vários sistemas de escrita.
+ */
+export interface IScriptBreakdown {
+  /** Palpites combinados, ponderados pela cobertura de cada sistema de escrita. */
+  results: ITaggedGuess[];
+  /** Partes do texto por sistema de escrita, da maior para a menor. */
+  scripts: IScriptPortion[];
+}
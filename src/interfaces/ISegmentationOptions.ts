@@ -0,0 +1,11 @@
+/**
+ * Opções de segmentação por janelas deslizantes.
+ */
+export interface ISegmentationOptions {
+  /** Tamanho da janela, em caracteres. */
+  windowSize?: number;
+  /** Distância entre o início de janelas consecutivas, em caracteres. */
+  stepSize?: number;
+  /** Corrige trechos isolados cujos vizinhos concordam em outro idioma (padrão: true). */
+  smoothing?: boolean;
+}
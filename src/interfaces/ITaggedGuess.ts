@@ -0,0 +1,11 @@
+import { ILanguageGuess } from "./ILanguageGuess.js";
+
+/**
+ * Palpite de idioma com o sistema de escrita detectado e a etiqueta BCP 47.
+ */
+export interface ITaggedGuess extends ILanguageGuess {
+  /** Sistema de escrita do texto (chave de `scripts`, ex.: "Cyrillic"). */
+  script: string;
+  /** Etiqueta BCP 47 com subetiqueta de escrita (ex.: "sr-Cyrl"). */
+  tag: string;
+}
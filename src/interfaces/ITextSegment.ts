@@ -0,0 +1,14 @@
+import { ILanguageGuess } from "./ILanguageGuess.js";
+
+/**
+ * Trecho contínuo de texto em um único idioma.
+ * `score` é a confiança média das janelas que cobrem o trecho.
+ */
+export interface ITextSegment extends ILanguageGuess {
+  /** Posição inicial do trecho no texto (inclusiva). */
+  start: number;
+  /** Posição final do trecho no texto (exclusiva). */
+  end: number;
+  /** Texto do trecho. */
+  text: string;
+}
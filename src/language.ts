@@ -1,14 +1,83 @@
-import languageDataRaw from "./data/languages.json";
-import { ngramsData } from "./ngrams.js";
+import { NgramValue } from "./ngrams.js";
+import { ModelRegistry, buildModelIndex } from "./registry.js";
+import { createBundledRegistry } from "./bundled.js";
+import { lookupRank } from "./binary.js";
+import { ModelIndex } from "./interfaces/IBinaryModelIndex.js";
+import { ScriptNotLoadedError, UnknownLanguageError } from "./errors.js";
+import {
+  isReliable,
+  normalizeProbabilities,
+  toProbabilities,
+} from "./confidence.js";
+import {
+  DEFAULT_STEP_SIZE,
+  DEFAULT_WINDOW_SIZE,
+  LabelledRange,
+  buildWindows,
+  mergeCells,
+  smoothCells,
+  snapToWords,
+  voteCells,
+} from "./segmentation.js";
+import { sampleText } from "./sampling.js";
+import { runBatch } from "./batch.js";
+import { normalizeText } from "./normalization.js";
+import {
+  MISSING_TRIGRAM_PENALTY,
+  rankMetric,
+  resolveMetric,
+} from "./metrics.js";
 import { IDetectionSettings } from "./interfaces/IDetectionSettings.js";
 import { ILanguageData } from "./interfaces/ILanguageData.js";
+import { ILanguageGuess } from "./interfaces/ILanguageGuess.js";
+import { ICalibratedDetection } from "./interfaces/ICalibratedDetection.js";
+import { ICalibratedGuess } from "./interfaces/ICalibratedGuess.js";
+import { ISegmentationOptions } from "./interfaces/ISegmentationOptions.js";
+import { ITextSegment } from "./interfaces/ITextSegment.js";
+import { IGuessOptions } from "./interfaces/IGuessOptions.js";
+import { ITaggedGuess } from "./interfaces/ITaggedGuess.js";
+import { IBatchOptions } from "./interfaces/IBatchOptions.js";
+import { IBatchResult } from "./interfaces/IBatchResult.js";
+import {
+  IScriptBreakdown,
+  IScriptPortion,
+} from "./interfaces/IScriptBreakdown.js";
+import {
+  IExplainedCandidate,
+  IExplanation,
+  ITrigramContribution,
+} from "./interfaces/IExplanation.js";
+import { IExplainOptions } from "./interfaces/IExplainOptions.js";
+import { ICacheStats } from "./interfaces/ICacheOptions.js";
+import { IDocumentOptions } from "./interfaces/IDocumentOptions.js";
+import { IDocumentGuess } from "./interfaces/IDocumentGuess.js";
 import { scripts } from "./regex.js";
+import { toLanguageTag } from "./tags.js";
+import { CJK_SCRIPTS, detectCjk } from "./cjk.js";
+import { getScriptDistribution, splitByScript } from "./multiscript.js";
+import { LEXICON_MAX_LENGTH, combineScores, scoreLexicon } from "./lexicon.js";
+import { disambiguate, resolveConfusables } from "./confusables.js";
+import { getModelFamilies } from "./romanized.js";
+import { applyPriors } from "./priors.js";
+import {
+  detectScriptLanguages,
+  getScriptPurity,
+  scriptLanguages,
+} from "./script-languages.js";
+import { LanguageCatalog } from "./languages.js";
+import { DetectionCache, fingerprintSettings, hashText } from "./cache.js";
+import { extractBlocks } from "./documents.js";
+import {
+  annotateTrace,
+  measurePhase,
+  traceDetection,
+} from "./instrumentation.js";
 import { Tokenizer } from "@the-horizon-dev/fast-tokenizer";
 
 const scriptKeys = Object.keys(scripts);
 
-// A constant for missing trigram penalty.
-const MISSING_TRIGRAM_PENALTY = 300;
+// Prior probability given to the language a document declares for its text.
+const HINT_PRIOR = 0.5;
 
 // Returns the default "undetermined" value.
 const und = (): [string, number][] => [["und", 1]];
@@ -17,52 +86,64 @@ const und = (): [string, number][] => [["und", 1]];
  * Class that implements language detection based on n‑grams.
  */
 export class LanguageGuesser {
-  private languagesAlpha3: Record<string, ILanguageData> = {};
-  private languagesAlpha2: Record<string, ILanguageData> = {};
-
-  // Precomputed trigram lookup maps:
-  // modelIndexes[script][lang][trigram] = index
-  private static modelIndexes: Record<
-    string,
-    Record<string, Record<string, number>>
-  > = {};
-
-  constructor() {
-    this.buildData();
-    LanguageGuesser.buildModelIndexes();
-  }
-
-  /**
-   * Precomputes the lookup indexes for each language model.
-   */
-  private static buildModelIndexes(): void {
-    if (Object.keys(LanguageGuesser.modelIndexes).length > 0) return;
-    for (const script in ngramsData) {
-      LanguageGuesser.modelIndexes[script] = {};
-      for (const lang in ngramsData[script]) {
-        const model = ngramsData[script][lang];
-        LanguageGuesser.modelIndexes[script][lang] = model.reduce(
-          (acc, trigram, i) => {
-            acc[trigram] = i;
-            return acc;
-          },
-          {} as Record<string, number>,
-        );
-      }
+  // Models used by the static API when no registry is given.
+  private static defaultRegistry?: ModelRegistry;
+  // Scores of recent detections, created on first use when caching is enabled.
+  private cache?: DetectionCache<[string, number][]>;
+  // Registry revision the cached scores were computed with.
+  private cacheRevision = 0;
+
+  /**
+   * Creates a guesser.
+   * @param registry (Optional) Models scored by this instance.
+   * Defaults to a private copy of the default registry (see `getDefaultRegistry`).
+   * @param defaultSettings (Optional) Settings applied to every detection of
+   * this instance, e.g. `sampling` or `metric`.
+   * @param languages (Optional) Language metadata of this instance.
+   * Defaults to a private copy of the bundled metadata.
+   */
+  constructor(
+    public readonly registry: ModelRegistry = LanguageGuesser.getDefaultRegistry().clone(),
+    public defaultSettings: IDetectionSettings = {},
+    public readonly languages: LanguageCatalog = new LanguageCatalog(),
+  ) {}
+
+  /**
+   * Returns the registry used by the static API and copied by new instances.
+   * Unless replaced, it holds every bundled model.
+   * @returns Shared default registry.
+   */
+  static getDefaultRegistry(): ModelRegistry {
+    if (!LanguageGuesser.defaultRegistry) {
+      LanguageGuesser.defaultRegistry = createBundledRegistry();
     }
+    return LanguageGuesser.defaultRegistry;
   }
 
   /**
-   * Transforms a list of language codes (alpha‑2 or alpha‑3) to alpha‑3 codes.
+   * Replaces the default registry, e.g. with `ModelRegistry.lazy()` to load
+   * the packs on demand. Instances created before keep their own copy.
+   * @param registry Registry used by the static API and copied by new instances.
+   */
+  static setDefaultRegistry(registry: ModelRegistry): void {
+    LanguageGuesser.defaultRegistry = registry;
+  }
+
+  /**
+   * Transforms a list of language codes, in any form, to alpha‑3 codes.
+   * Macrolanguage codes also give their individual languages (see
+   * `LanguageCatalog.resolve`); codes without metadata are kept when a model
+   * has them.
    * @param list List of language codes.
    * @returns List of alpha‑3 codes.
+   * @throws {UnknownLanguageError} If codes match neither a language nor a model.
    */
   private transformCodeList(list: string[]): string[] {
-    return list
-      .map((code) =>
-        code.length === 3 ? code : this.languagesAlpha2[code]?.alpha3 || "",
-      )
-      .filter(Boolean);
+    const { codes, unknown } = this.languages.resolve(list);
+    const modelled = new Set(this.registry.getLanguages());
+    const missing = unknown.filter((code) => !modelled.has(code));
+    if (missing.length > 0) throw new UnknownLanguageError(missing);
+    return [...codes, ...unknown];
   }
 
   /**
@@ -97,35 +178,23 @@ export class LanguageGuesser {
   }
 
   /**
-   * Calculates the distance between extracted trigrams and a language model.
+   * Calculates the rank distance between extracted trigrams and a language model.
    * Uses a precomputed lookup (if provided) for performance.
    * @param trigrams List of (trigram, frequency) tuples.
    * @param model N-gram model.
-   * @param modelIndex (Optional) Precomputed lookup mapping for the model.
+   * @param modelIndex (Optional) Precomputed lookup for the model, plain or binary.
    * @returns Numerical distance value.
    */
   static getDistance(
     trigrams: [string, number][],
     model: string[],
-    modelIndex?: Record<string, number>,
+    modelIndex?: ModelIndex,
   ): number {
-    if (!modelIndex) {
-      modelIndex = model.reduce(
-        (acc, trigram, i) => {
-          acc[trigram] = i;
-          return acc;
-        },
-        {} as Record<string, number>,
-      );
-    }
-    return trigrams.reduce((distance, [trigram, freq]) => {
-      const rank = modelIndex[trigram];
-      if (rank === undefined) {
-        return distance + MISSING_TRIGRAM_PENALTY;
-      } else {
-        return distance + Math.abs(freq - rank) / 2;
-      }
-    }, 0);
+    return rankMetric.distance(
+      trigrams,
+      model,
+      modelIndex ?? buildModelIndex(model),
+    );
   }
 
   /**
@@ -198,19 +267,40 @@ export class LanguageGuesser {
     return filtered;
   }
 
+  /**
+   * Applies allow and deny lists to candidates scored without n‑gram models.
+   * @param candidates Sorted list of [language, score] tuples.
+   * @param settings Detection settings.
+   * @returns The allowed candidates, or "und" if none is left.
+   */
+  private static filterCandidates(
+    candidates: [string, number][],
+    settings: IDetectionSettings,
+  ): [string, number][] {
+    const { allowList = [], denyList = [] } = settings;
+    const scores = candidates.filter(
+      ([lang]) =>
+        (allowList.length === 0 || allowList.includes(lang)) &&
+        !denyList.includes(lang),
+    );
+    annotateTrace({ candidates: scores.length });
+    return scores.length > 0 ? scores : und();
+  }
+
   /**
    * Computes and sorts distances between extracted trigrams and language models.
    * @param trigrams List of (trigram, frequency) tuples.
    * @param srcLanguages N-gram models for a specific script.
    * @param options Optional detection settings.
    * @param modelIndexesForScript (Optional) Precomputed indexes for the script.
-   * @returns Sorted list of [language, distance] tuples.
+   * @returns Sorted list of [language, distance] tuples, weighted by the
+   * `priors` setting when given (see `applyPriors`).
    */
   static getDistances(
     trigrams: [string, number][],
     srcLanguages: Record<string, string[]>,
     options: IDetectionSettings = {},
-    modelIndexesForScript?: Record<string, Record<string, number>>,
+    modelIndexesForScript?: Record<string, ModelIndex>,
   ): [string, number][] {
     const { allowList = [], denyList = [] } = options;
     const filteredLanguages = LanguageGuesser.filterLanguages(
@@ -218,37 +308,105 @@ export class LanguageGuesser {
       allowList,
       denyList,
     );
+    const metric = resolveMetric(options.metric);
     const distances: [string, number][] = [];
     Object.keys(filteredLanguages).forEach((lang) => {
       const model = filteredLanguages[lang];
-      const modelIndex = modelIndexesForScript
-        ? modelIndexesForScript[lang]
-        : undefined;
-      const distance = LanguageGuesser.getDistance(trigrams, model, modelIndex);
+      const modelIndex =
+        modelIndexesForScript?.[lang] ?? buildModelIndex(model);
+      const distance = metric.distance(trigrams, model, modelIndex);
       distances.push([lang, distance]);
     });
     distances.sort((a, b) => a[1] - b[1]);
-    return distances;
+    return options.priors
+      ? applyPriors(distances, options.priors, metric.temperature)
+      : distances;
   }
 
   /**
    * Detects possible languages for the given text based on n‑grams.
    * @param inputText Text to analyze.
    * @param settings Optional detection settings.
+   * @param registry (Optional) Models to score against. Defaults to the default registry.
    * @returns Sorted list of [language, score] tuples.
+   * @throws {ScriptNotLoadedError} If the text's script has a pack that is not loaded yet.
    */
   static detectAll(
     inputText: string,
     settings: IDetectionSettings = {},
+    registry: ModelRegistry = LanguageGuesser.getDefaultRegistry(),
+  ): [string, number][] {
+    return traceDetection(
+      settings.instrumentation,
+      () => LanguageGuesser.detectScores(inputText, settings, registry),
+      (scores) => scores[0],
+    );
+  }
+
+  /**
+   * Implements `detectAll`, timing its phases when the detection is traced.
+   * @param inputText Text to analyze.
+   * @param settings Detection settings.
+   * @param registry Models to score against.
+   * @returns Sorted list of [language, score] tuples.
+   * @throws {ScriptNotLoadedError} If the text's script has a pack that is not loaded yet.
+   */
+  private static detectScores(
+    inputText: string,
+    settings: IDetectionSettings,
+    registry: ModelRegistry,
   ): [string, number][] {
     const minLength = settings.minLength ?? 10;
-    if (!inputText || inputText.length < minLength) return und();
-    // Limit analysis to the first 2048 characters for performance.
-    const text = inputText.substring(0, 2048);
-    // Ensure model indexes are initialized for static usage.
-    LanguageGuesser.buildModelIndexes();
-    const [scriptId, scriptOccurrence] = LanguageGuesser.getTopScript(text);
-    if (!(scriptId in ngramsData) && scriptOccurrence > 0.5) {
+    if (!inputText) return und();
+    // Limit analysis to a sample of the text for performance, then strip noise.
+    const text = normalizeText(
+      sampleText(inputText, settings.sampling),
+      settings.normalization,
+    );
+    annotateTrace({ length: text.length });
+    if (text.length < minLength) {
+      // Too short for trigrams, but known words may still tell the language.
+      if (!settings.lexicon) return und();
+      const lexiconScores = measurePhase("scoring", () =>
+        scoreLexicon(
+          text,
+          registry.getLexicons(),
+          settings.allowList,
+          settings.denyList,
+        ),
+      );
+      annotateTrace({ candidates: lexiconScores.length });
+      return lexiconScores.length > 0 ? lexiconScores : und();
+    }
+    const [scriptId, scriptOccurrence] = measurePhase("script", () =>
+      LanguageGuesser.getTopScript(text),
+    );
+    annotateTrace({ script: scriptId });
+    const families = getModelFamilies(scriptId, settings);
+    families.forEach((family) => {
+      if (!registry.getModels(family) && registry.isLoadable(family)) {
+        throw new ScriptNotLoadedError(family);
+      }
+    });
+    const { models, indexes } = LanguageGuesser.getScriptModels(
+      families,
+      registry,
+    );
+    if (!models && CJK_SCRIPTS.includes(scriptId)) {
+      // Han, kana and Hangul text is told apart by character statistics.
+      const candidates = measurePhase("scoring", () => detectCjk(text));
+      if (candidates.length > 0) {
+        return LanguageGuesser.filterCandidates(candidates, settings);
+      }
+    }
+    if (!models && scriptOccurrence > 0.5) {
+      // Scripts without models resolve to their candidate languages.
+      const candidates = measurePhase("scoring", () =>
+        detectScriptLanguages(text, scriptId),
+      );
+      if (candidates.length > 0) {
+        return LanguageGuesser.filterCandidates(candidates, settings);
+      }
       if (settings.allowList) {
         if (settings.allowList.includes(scriptId)) {
           return [[scriptId, 1]];
@@ -260,48 +418,349 @@ export class LanguageGuesser {
       }
       return [[scriptId, 1]];
     }
-    if (ngramsData[scriptId]) {
-      const tuples = LanguageGuesser.asTuples(text);
-      const distances = LanguageGuesser.getDistances(
+    if (models) {
+      const tuples = measurePhase("trigrams", () =>
+        LanguageGuesser.asTuples(text),
+      );
+      const distances = measurePhase("distances", () =>
+        LanguageGuesser.getDistances(tuples, models, settings, indexes),
+      );
+      annotateTrace({ candidates: distances.length });
+      if (distances.length === 0) return und();
+      if (distances[0][0] === "und") return [[scriptId, 1]];
+      return measurePhase("scoring", () => {
+        let scored = LanguageGuesser.scoreDistances(distances, text.length);
+        if (scored.length === 0 || scored[0][1] < 0.5) {
+          return und();
+        }
+        if (settings.lexicon && text.length < LEXICON_MAX_LENGTH) {
+          const lexiconScores = scoreLexicon(
+            text,
+            registry.getLexicons(),
+            settings.allowList,
+            settings.denyList,
+          );
+          if (lexiconScores.length > 0) {
+            scored = combineScores(scored, lexiconScores);
+          }
+        }
+        return disambiguate(
+          scored,
+          text,
+          resolveConfusables(settings.confusables),
+        );
+      });
+    }
+    return und();
+  }
+
+  /**
+   * Detects possible languages for the given text with calibrated probabilities.
+   * @param inputText Text to analyze.
+   * @param settings Optional detection settings.
+   * @param registry (Optional) Models to score against. Defaults to the default registry.
+   * @returns Probabilities summing to 1, with the evidence behind them.
+   * @throws {ScriptNotLoadedError} If the text's script has a pack that is not loaded yet.
+   */
+  static detectCalibrated(
+    inputText: string,
+    settings: IDetectionSettings = {},
+    registry: ModelRegistry = LanguageGuesser.getDefaultRegistry(),
+  ): ICalibratedDetection {
+    return traceDetection(
+      settings.instrumentation,
+      () => LanguageGuesser.detectProbabilities(inputText, settings, registry),
+      (detection) => detection.probabilities[0],
+    );
+  }
+
+  /**
+   * Implements `detectCalibrated`, timing its phases when the detection is traced.
+   * @param inputText Text to analyze.
+   * @param settings Detection settings.
+   * @param registry Models to score against.
+   * @returns Probabilities summing to 1, with the evidence behind them.
+   * @throws {ScriptNotLoadedError} If the text's script has a pack that is not loaded yet.
+   */
+  private static detectProbabilities(
+    inputText: string,
+    settings: IDetectionSettings,
+    registry: ModelRegistry,
+  ): ICalibratedDetection {
+    const sample = sampleText(inputText || "", settings.sampling);
+    const text = normalizeText(sample, settings.normalization);
+    const coverage = sample.length ? text.length / sample.length : 0;
+    const [scriptId] = measurePhase("script", () =>
+      LanguageGuesser.getTopScript(text),
+    );
+    const { models } = LanguageGuesser.getScriptModels(
+      getModelFamilies(scriptId, settings),
+      registry,
+    );
+    const minLength = settings.minLength ?? 10;
+    if (!models || text.length < minLength) {
+      // Nothing to calibrate: either undetermined or decided by the script alone.
+      const scores = LanguageGuesser.detectAll(inputText, settings, registry);
+      const determined = scores[0][0] !== "und";
+      const probabilities = normalizeProbabilities(scores);
+      // Letters outside the script weaken a guess made from the script.
+      const purity = scriptLanguages[scriptId]
+        ? getScriptPurity(text, scriptId)
+        : 1;
+      return {
+        probabilities,
+        length: text.length,
+        margin: determined
+          ? probabilities[0][1] - (probabilities[1]?.[1] ?? 0)
+          : 0,
+        missRatio: determined ? 1 - purity : 1,
+        coverage,
+      };
+    }
+    const tuples = measurePhase("trigrams", () =>
+      LanguageGuesser.asTuples(text),
+    );
+    return {
+      ...LanguageGuesser.calibrateTuples(
         tuples,
-        ngramsData[scriptId],
+        scriptId,
+        text.length,
         settings,
-        LanguageGuesser.modelIndexes[scriptId],
+        registry,
+        text,
+      ),
+      coverage,
+    };
+  }
+
+  /**
+   * Gathers the models of several families, e.g. a script's own models and
+   * the romanized ones, with their lookup indexes.
+   * @param families Keys of the model families, in the registry.
+   * @param registry Models to score against.
+   * @returns Models and indexes by language; models are undefined if no family has any.
+   */
+  private static getScriptModels(
+    families: string[],
+    registry: ModelRegistry,
+  ): {
+    models?: Record<string, string[]>;
+    indexes: Record<string, ModelIndex>;
+  } {
+    if (families.length === 1) {
+      return {
+        models: registry.getModels(families[0]),
+        indexes: registry.getIndexes(families[0]),
+      };
+    }
+    let models: Record<string, string[]> | undefined;
+    let indexes: Record<string, ModelIndex> = {};
+    families.forEach((family) => {
+      const familyModels = registry.getModels(family);
+      if (!familyModels) return;
+      models = { ...models, ...familyModels };
+      indexes = { ...indexes, ...registry.getIndexes(family) };
+    });
+    return { models, indexes };
+  }
+
+  /**
+   * Turns distances into scores between 0 and 1, the closest language scoring 1.
+   * @param distances Sorted list of [language, distance] tuples.
+   * @param length Number of analyzed characters.
+   * @returns Sorted list of [language, score] tuples.
+   */
+  private static scoreDistances(
+    distances: [string, number][],
+    length: number,
+  ): [string, number][] {
+    const minDistance = distances[0][1];
+    const maxDistance = length * MISSING_TRIGRAM_PENALTY - minDistance;
+    const denom = Math.max(1, maxDistance);
+    return distances.map(([lang, d]) => [
+      lang,
+      1 - ((d - minDistance) / denom || 0),
+    ]);
+  }
+
+  /**
+   * Computes calibrated probabilities for trigram frequencies already extracted
+   * from text in a single script, e.g. accumulated over several chunks.
+   * @param tuples List of (trigram, frequency) tuples.
+   * @param scriptId Script whose models are scored.
+   * @param length Number of characters the tuples were extracted from.
+   * @param settings Optional detection settings.
+   * @param registry (Optional) Models to score against. Defaults to the default registry.
+   * @param text (Optional) Text the tuples were extracted from, used to tell
+   * closely related languages apart (see the `confusables` setting).
+   * @returns Probabilities summing to 1, with the evidence behind them.
+   */
+  static calibrateTuples(
+    tuples: [string, number][],
+    scriptId: string,
+    length: number,
+    settings: IDetectionSettings = {},
+    registry: ModelRegistry = LanguageGuesser.getDefaultRegistry(),
+    text?: string,
+  ): ICalibratedDetection {
+    return traceDetection(
+      settings.instrumentation,
+      () =>
+        LanguageGuesser.calibrateDistances(
+          tuples,
+          scriptId,
+          length,
+          settings,
+          registry,
+          text,
+        ),
+      (detection) => detection.probabilities[0],
+    );
+  }
+
+  /**
+   * Implements `calibrateTuples`, timing its phases when the detection is traced.
+   * @param tuples List of (trigram, frequency) tuples.
+   * @param scriptId Script whose models are scored.
+   * @param length Number of characters the tuples were extracted from.
+   * @param settings Detection settings.
+   * @param registry Models to score against.
+   * @param text (Optional) Text the tuples were extracted from.
+   * @returns Probabilities summing to 1, with the evidence behind them.
+   */
+  private static calibrateDistances(
+    tuples: [string, number][],
+    scriptId: string,
+    length: number,
+    settings: IDetectionSettings,
+    registry: ModelRegistry,
+    text?: string,
+  ): ICalibratedDetection {
+    annotateTrace({ script: scriptId, length });
+    const { models = {}, indexes } = LanguageGuesser.getScriptModels(
+      getModelFamilies(scriptId, settings),
+      registry,
+    );
+    const distances = measurePhase("distances", () =>
+      LanguageGuesser.getDistances(tuples, models, settings, indexes),
+    );
+    annotateTrace({ candidates: distances.length });
+    if (distances.length === 0 || tuples.length === 0) {
+      return { probabilities: und(), length, margin: 0, missRatio: 1 };
+    }
+    return measurePhase("scoring", () => {
+      const topIndex = indexes[distances[0][0]] ?? {};
+      const missing = tuples.filter(
+        ([trigram]) => lookupRank(topIndex, trigram) === undefined,
       );
-      if (distances.length > 0 && distances[0][0] === "und")
-        return [[scriptId, 1]];
-      const minDistance = distances[0][1];
-      const maxDistance = text.length * MISSING_TRIGRAM_PENALTY - minDistance;
-      const denom = Math.max(1, maxDistance);
-      const scored = distances.map(([lang, d]) => [
-        lang,
-        1 - ((d - minDistance) / denom || 0),
-      ]) as [string, number][];
-      if (scored.length === 0 || scored[0][1] < 0.5) {
-        return und();
+      const gap =
+        distances.length > 1 ? distances[1][1] - distances[0][1] : NaN;
+      let probabilities = toProbabilities(distances);
+      if (text) {
+        // Re-rank on the same scores as detectAll; probabilities follow the new order.
+        const reranked = disambiguate(
+          LanguageGuesser.scoreDistances(distances, length),
+          text,
+          resolveConfusables(settings.confusables),
+        );
+        probabilities = reranked.map(([lang], i) => [
+          lang,
+          probabilities[i][1],
+        ]);
       }
-      return scored;
+      return {
+        probabilities,
+        length,
+        margin: Number.isNaN(gap)
+          ? 1
+          : Math.min(1, gap / (tuples.length * MISSING_TRIGRAM_PENALTY)),
+        missRatio: missing.length / tuples.length,
+      };
+    });
+  }
+
+  /**
+   * Looks up a language by code.
+   * @param code Language code, in any form (see `LanguageCatalog`).
+   * @returns Language data, or undefined if the code is unknown.
+   */
+  public getLanguage(code: string): ILanguageData | undefined {
+    return this.languages.get(code);
+  }
+
+  /**
+   * Lists every known language, bundled or registered.
+   * @returns Language data.
+   */
+  public getLanguages(): ILanguageData[] {
+    return this.languages.list();
+  }
+
+  /**
+   * Registers the metadata of a language. Existing metadata for the same
+   * alpha‑3 code is replaced.
+   * @param language Language data.
+   */
+  public registerLanguage(language: ILanguageData): void {
+    this.languages.register(language);
+  }
+
+  /**
+   * Registers an n‑gram model in this instance's registry, alongside the bundled ones.
+   * An existing model for the same script and language is replaced.
+   * @param script Script the model belongs to (e.g. "Latin").
+   * @param alpha3 Language code (alpha‑3) reported for the model.
+   * @param model Ranked trigrams, as an array or a pipe‑separated string.
+   * @param language (Optional) Metadata used when the code is not a known language.
+   */
+  public registerModel(
+    script: string,
+    alpha3: string,
+    model: NgramValue,
+    language: { alpha2?: string; name?: string } = {},
+  ): void {
+    this.registry.register(script, alpha3, model);
+    if (!this.languages.get(alpha3)) {
+      this.registerLanguage({
+        alpha2: language.alpha2 ?? "",
+        alpha3,
+        name: language.name ?? alpha3,
+      });
     }
-    return und();
   }
 
   /**
-   * Builds language data from the JSON file.
+   * Registers several n‑gram models, e.g. the output of `trainModels`.
+   * @param models N-gram models as models[script][lang].
+   * @param replace If true, the models previously scored by this instance
+   * (including the bundled ones) are discarded first.
    */
-  private buildData(): void {
-    (languageDataRaw as [string, string, string][]).forEach(
-      ([alpha2, alpha3, name]) => {
-        const langData: ILanguageData = { alpha2, alpha3, name };
-        this.languagesAlpha3[alpha3] = langData;
-        this.languagesAlpha2[alpha2] = langData;
-      },
-    );
+  public registerModels(
+    models: Record<string, Record<string, NgramValue>>,
+    replace = false,
+  ): void {
+    if (replace) this.registry.clear();
+    for (const script in models) {
+      for (const lang in models[script]) {
+        this.registerModel(script, lang, models[script][lang]);
+      }
+    }
+  }
+
+  /**
+   * Removes a language model from this instance's registry.
+   * @param alpha3 Language code (alpha‑3).
+   * @param script (Optional) Restricts the removal to one script.
+   * @returns True if a model was removed.
+   */
+  public removeModel(alpha3: string, script?: string): boolean {
+    return this.registry.remove(alpha3, script);
   }
 
   /**
    * Guesses the languages for the provided text.
    * @param utterance Text to analyze.
-   * @param allowList (Optional) List of allowed language codes (alpha‑2 or alpha‑3).
+   * @param allowList (Optional) List of allowed language codes, in any form.
    * @param limit Maximum number of results to return.
    * @param denyList (Optional) List of languages to ignore.
    * @returns Array of objects containing alpha‑2, alpha‑3, language name, and score.
@@ -311,41 +770,12 @@ export class LanguageGuesser {
     allowList: string[] = [],
     limit = 3,
     denyList: string[] = [],
-  ): Array<{
-    alpha3: string;
-    alpha2: string;
-    language: string;
-    score: number;
-  }> {
-    const options: IDetectionSettings = {
-      allowList:
-        allowList.length > 0 ? this.transformCodeList(allowList) : undefined,
-      denyList:
-        denyList.length > 0 ? this.transformCodeList(denyList) : undefined,
-    };
-    const scores = LanguageGuesser.detectAll(utterance, options);
-    const results = scores
-      .map(([alpha3, score]) => {
-        const lang = this.languagesAlpha3[alpha3];
-        return lang
-          ? {
-              alpha3: lang.alpha3,
-              alpha2: lang.alpha2,
-              language: lang.name,
-              score,
-            }
-          : null;
-      })
-      .filter(
-        (
-          item,
-        ): item is {
-          alpha3: string;
-          alpha2: string;
-          language: string;
-          score: number;
-        } => Boolean(item),
-      );
+  ): ILanguageGuess[] {
+    const settings = this.buildSettings(allowList, denyList);
+    const scores = this.detectCached(utterance, settings, () =>
+      LanguageGuesser.detectAll(utterance, settings, this.registry),
+    );
+    const results = this.toGuesses(scores);
     if (results.length === 0) {
       return [
         { alpha3: "und", alpha2: "", language: "Undetermined", score: 0 },
@@ -354,17 +784,259 @@ export class LanguageGuesser {
     return results.slice(0, limit);
   }
 
+  /**
+   * Returns the cached scores of a text, or runs the detection and caches them
+   * when the `cache` setting is enabled. Entries are keyed on the analyzed
+   * text and every scoring setting, and dropped whenever the registry changes.
+   * @param utterance Text to analyze.
+   * @param settings Detection settings, with alpha‑3 codes.
+   * @param detect Detection run on a miss.
+   * @returns List of [language, score] tuples.
+   */
+  private detectCached(
+    utterance: string,
+    settings: IDetectionSettings,
+    detect: () => [string, number][],
+  ): [string, number][] {
+    if (!settings.cache) return detect();
+    if (!this.cache) {
+      this.cache = new DetectionCache(
+        settings.cache === true ? {} : settings.cache,
+      );
+    }
+    const revision = this.registry.getRevision();
+    if (revision !== this.cacheRevision) {
+      this.cache.clear();
+      this.cacheRevision = revision;
+    }
+    // Key on the text actually analyzed, so that texts differing only in
+    // what sampling or normalization drops share an entry.
+    const text = normalizeText(
+      sampleText(utterance || "", settings.sampling),
+      settings.normalization,
+    );
+    const key = `${hashText(text)}|${fingerprintSettings(settings)}`;
+    const cached = this.cache.get(key);
+    if (cached) return cached;
+    const scores = detect();
+    this.cache.set(key, scores);
+    return scores;
+  }
+
+  /**
+   * Returns the statistics of the result cache (see the `cache` setting).
+   * @returns Hit, miss and eviction counts, and the number of cached results.
+   */
+  public getCacheStats(): ICacheStats {
+    return (
+      this.cache?.getStats() ?? { hits: 0, misses: 0, evictions: 0, size: 0 }
+    );
+  }
+
+  /**
+   * Drops every cached result. Changes to the registry drop them
+   * automatically, and changed settings never reuse them.
+   */
+  public clearCache(): void {
+    this.cache?.clear();
+  }
+
+  /**
+   * Guesses the languages for the provided text with calibrated probabilities.
+   * Unlike `guess`, scores are probabilities summing to 1 over the returned
+   * candidates, and the result tells whether the top guess can be trusted.
+   * @param utterance Text to analyze.
+   * @param allowList (Optional) List of allowed language codes, in any form.
+   * @param limit Maximum number of results to return.
+   * @param denyList (Optional) List of languages to ignore.
+   * @returns Guesses with probabilities, confidence and reliability flag.
+   */
+  public guessCalibrated(
+    utterance: string,
+    allowList: string[] = [],
+    limit = 3,
+    denyList: string[] = [],
+  ): ICalibratedGuess {
+    const detection = LanguageGuesser.detectCalibrated(
+      utterance,
+      this.buildSettings(allowList, denyList),
+      this.registry,
+    );
+    return this.toCalibratedGuess(detection, limit);
+  }
+
+  /**
+   * Maps a calibrated detection to guesses with language data.
+   * @param detection Calibrated detection, e.g. from `detectCalibrated`.
+   * @param limit Maximum number of results to return.
+   * @returns Guesses with probabilities, confidence and reliability flag.
+   */
+  public toCalibratedGuess(
+    detection: ICalibratedDetection,
+    limit = 3,
+  ): ICalibratedGuess {
+    // Candidates without language data are dropped, so rescale the rest.
+    const probabilities = normalizeProbabilities(
+      detection.probabilities.filter(([alpha3]) => this.languages.get(alpha3)),
+    );
+    // Returned scores sum to 1 as well; confidence still weighs every candidate.
+    const results = this.toGuesses(
+      probabilities.length > limit
+        ? normalizeProbabilities(probabilities.slice(0, limit))
+        : probabilities,
+    );
+    if (results.length === 0) {
+      return {
+        results: [
+          { alpha3: "und", alpha2: "", language: "Undetermined", score: 1 },
+        ],
+        isReliable: false,
+        confidence: 0,
+        margin: 0,
+        missRatio: detection.missRatio,
+        length: detection.length,
+        coverage: detection.coverage ?? 1,
+      };
+    }
+    const confidence = probabilities[0][1];
+    return {
+      results,
+      isReliable: isReliable(
+        detection.length,
+        confidence,
+        detection.missRatio,
+        detection.margin,
+      ),
+      confidence,
+      margin: detection.margin,
+      missRatio: detection.missRatio,
+      length: detection.length,
+      coverage: detection.coverage ?? 1,
+    };
+  }
+
+  /**
+   * Builds detection settings from allow and deny lists, on top of the default settings.
+   * @param allowList List of allowed language codes, in any form.
+   * @param denyList List of languages to ignore.
+   * @returns Detection settings with alpha‑3 codes.
+   */
+  public buildSettings(
+    allowList: string[],
+    denyList: string[],
+  ): IDetectionSettings {
+    const {
+      allowList: defaultAllow = [],
+      denyList: defaultDeny = [],
+      priors,
+    } = this.defaultSettings;
+    const allow = allowList.length > 0 ? allowList : defaultAllow;
+    const deny = denyList.length > 0 ? denyList : defaultDeny;
+    return {
+      ...this.defaultSettings,
+      allowList: allow.length > 0 ? this.transformCodeList(allow) : undefined,
+      denyList: deny.length > 0 ? this.transformCodeList(deny) : undefined,
+      priors: priors && this.transformPriors(priors),
+    };
+  }
+
+  /**
+   * Keys priors by alpha‑3 code. Priors of the same language are added up;
+   * unknown codes are kept as they are.
+   * @param priors Prior probabilities by language code, in any form.
+   * @returns Prior probabilities by alpha‑3 code.
+   */
+  private transformPriors(
+    priors: Record<string, number>,
+  ): Record<string, number> {
+    const transformed: Record<string, number> = {};
+    for (const code in priors) {
+      const alpha3 = this.languages.get(code)?.alpha3 ?? code;
+      transformed[alpha3] = (transformed[alpha3] ?? 0) + priors[code];
+    }
+    return transformed;
+  }
+
+  /**
+   * Maps [language, score] tuples to guesses, dropping unknown languages.
+   * @param scores List of [language, score] tuples.
+   * @returns Guesses with language data.
+   */
+  private toGuesses(scores: [string, number][]): ILanguageGuess[] {
+    const results: ILanguageGuess[] = [];
+    scores.forEach(([alpha3, score]) => {
+      const lang = this.languages.get(alpha3);
+      if (lang) {
+        results.push({
+          alpha3: lang.alpha3,
+          alpha2: lang.alpha2,
+          language: lang.name,
+          score,
+        });
+      }
+    });
+    return results;
+  }
+
+  /**
+   * Guesses the languages for the provided text, first loading the pack of
+   * its script (and the romanized pack, when enabled) if the registry loads
+   * packs on demand.
+   * @param utterance Text to analyze.
+   * @param allowList (Optional) List of allowed language codes, in any form.
+   * @param limit Maximum number of results to return.
+   * @param denyList (Optional) List of languages to ignore.
+   * @returns Array of objects containing alpha‑2, alpha‑3, language name, and score.
+   */
+  public async guessAsync(
+    utterance: string,
+    allowList: string[] = [],
+    limit = 3,
+    denyList: string[] = [],
+  ): Promise<ILanguageGuess[]> {
+    if (utterance) {
+      const [scriptId] = LanguageGuesser.getTopScript(
+        sampleText(utterance, this.defaultSettings.sampling),
+      );
+      await Promise.all(
+        getModelFamilies(scriptId, this.defaultSettings).map((family) =>
+          this.registry.loadScript(family),
+        ),
+      );
+    }
+    return this.guess(utterance, allowList, limit, denyList);
+  }
+
+  /**
+   * Guesses the languages of many texts, optionally across worker threads.
+   * A text that fails to be analyzed is reported with its error, without
+   * affecting the others.
+   * @param texts Texts, from an array, iterable or async iterable.
+   * @param options (Optional) Allow and deny lists, limit, and worker settings.
+   * @returns One result per text, in input order.
+   * @throws {Error} If the options are invalid, or if worker threads are
+   * requested with settings that cannot be sent to them.
+   */
+  public guessBatch(
+    texts: Iterable<string> | AsyncIterable<string>,
+    options: IBatchOptions = {},
+  ): Promise<IBatchResult[]> {
+    return runBatch(this, texts, options);
+  }
+
   /**
    * Returns the best language guess for the provided text.
    * @param utterance Text to analyze.
    * @param allowList (Optional) List of allowed language codes.
+   * @param denyList (Optional) List of languages to ignore.
    * @returns Object with the best guess.
    */
   public guessBest(
     utterance: string,
     allowList: string[] = [],
-  ): { alpha3: string; alpha2: string; language: string; score: number } {
-    const result = this.guess(utterance, allowList, 1)[0];
+    denyList: string[] = [],
+  ): ILanguageGuess {
+    const result = this.guess(utterance, allowList, 1, denyList)[0];
     return (
       result || {
         alpha3: "und",
@@ -388,13 +1060,317 @@ export class LanguageGuesser {
     utterance: string,
     allowList: string[] = [],
     limit = 3,
-    segmentationOptions?: { windowSize?: number; stepSize?: number },
-  ): Array<{
-    alpha3: string;
-    alpha2: string;
-    language: string;
-    score: number;
-  }> {
+    segmentationOptions?: ISegmentationOptions,
+  ): ILanguageGuess[] {
+    return this.aggregateMixed(utterance, allowList, [], segmentationOptions)
+      .slice(0, limit)
+      .map(({ alpha2, alpha3, language, score }) => ({
+        alpha2,
+        alpha3,
+        language,
+        score,
+      }));
+  }
+
+  /**
+   * Guesses the languages of the provided text, with a BCP 47 tag for each result.
+   * Single entry point for `guess` and `guessMixed`, configured by an options object.
+   * @param utterance Text to analyze.
+   * @param options (Optional) Allow and deny lists, limit and mixed-language mode.
+   * @returns Guesses with the detected script and a BCP 47 tag (e.g. "sr-Cyrl").
+   */
+  public detect(
+    utterance: string,
+    options: IGuessOptions = {},
+  ): ITaggedGuess[] {
+    const {
+      allowList = [],
+      denyList = [],
+      limit = 3,
+      mixed = false,
+      segmentation,
+    } = options;
+    if (mixed) {
+      return this.aggregateMixed(
+        utterance,
+        allowList,
+        denyList,
+        segmentation,
+      ).slice(0, limit);
+    }
+    const text = sampleText(utterance || "", this.defaultSettings.sampling);
+    const [script] = LanguageGuesser.getTopScript(text);
+    return this.guess(utterance, allowList, limit, denyList).map((guess) => ({
+      ...guess,
+      script,
+      tag: toLanguageTag(guess, script, text),
+    }));
+  }
+
+  /**
+   * Guesses the languages of an HTML, Markdown or JSON document from its
+   * human text only: markup, code and URLs are left out. Each block of text
+   * is guessed on its own, with the `lang` attribute covering it as a prior
+   * (see `applyPriors`), and the blocks' outcomes are combined, weighted by
+   * the length of their text. Scores are calibrated probabilities, as in
+   * `guessCalibrated`.
+   * @param document Document.
+   * @param options Format, allow and deny lists, limit, JSON fields and hints.
+   * @returns Guesses for the whole text, and for each block with its span.
+   * @throws {Error} If the format is unknown.
+   * @throws {SyntaxError} If a JSON document is not valid.
+   */
+  public guessDocument(
+    document: string,
+    options: IDocumentOptions,
+  ): IDocumentGuess {
+    const {
+      format,
+      allowList = [],
+      denyList = [],
+      limit = 3,
+      fields,
+      langHints = true,
+    } = options;
+    const settings = this.buildSettings(allowList, denyList);
+    const blocks = extractBlocks(document, format, fields).map((block) => {
+      const detection = LanguageGuesser.detectCalibrated(
+        block.text,
+        langHints && block.hint
+          ? this.withHint(settings, block.hint)
+          : settings,
+        this.registry,
+      );
+      const { results } = this.toCalibratedGuess(detection, Infinity);
+      return { ...block, results };
+    });
+    // Combine the blocks' guesses, weighted by the length of their text.
+    const total = blocks.reduce((sum, { text }) => sum + text.length, 0);
+    const combined: Record<string, ILanguageGuess> = {};
+    blocks.forEach(({ text, results }) =>
+      results.forEach((guess) => {
+        if (guess.alpha3 === "und") return;
+        combined[guess.alpha3] = {
+          ...guess,
+          score:
+            (combined[guess.alpha3]?.score ?? 0) +
+            (guess.score * text.length) / total,
+        };
+      }),
+    );
+    const results = Object.values(combined).sort((a, b) => b.score - a.score);
+    return {
+      results:
+        results.length > 0
+          ? results.slice(0, limit)
+          : [{ alpha3: "und", alpha2: "", language: "Undetermined", score: 0 }],
+      blocks: blocks.map((block) => ({
+        ...block,
+        results: block.results.slice(0, limit),
+      })),
+    };
+  }
+
+  /**
+   * Adds the language a document declares for some text to the priors of
+   * detection settings, with probability `HINT_PRIOR`. A macrolanguage shares
+   * it with its individual languages; unknown languages are ignored.
+   * @param settings Detection settings, with alpha‑3 codes.
+   * @param hint Language tag (e.g. "pt-BR").
+   * @returns Detection settings with the hint among the priors.
+   */
+  private withHint(
+    settings: IDetectionSettings,
+    hint: string,
+  ): IDetectionSettings {
+    const { codes } = this.languages.resolve([hint.split(/[-_]/u)[0]]);
+    if (codes.length === 0) return settings;
+    const priors: Record<string, number> = { ...settings.priors };
+    codes.forEach((code) => {
+      priors[code] = (priors[code] ?? 0) + HINT_PRIOR / codes.length;
+    });
+    return { ...settings, priors };
+  }
+
+  /**
+   * Explains how the languages of a text were scored: the script it was
+   * routed to, and for each top candidate the trigrams found in its model
+   * (with their rank) and those that were not, with their share of the distance.
+   * Pass the result to `formatExplanation` for a readable rendering.
+   * @param utterance Text to analyze.
+   * @param options (Optional) Allow and deny lists, and number of candidates.
+   * @returns Structured explanation.
+   */
+  public explain(
+    utterance: string,
+    options: IExplainOptions = {},
+  ): IExplanation {
+    const { allowList = [], denyList = [], limit = 3 } = options;
+    const settings = this.buildSettings(allowList, denyList);
+    const scores = LanguageGuesser.detectAll(
+      utterance,
+      settings,
+      this.registry,
+    );
+    const text = utterance
+      ? normalizeText(
+          sampleText(utterance, settings.sampling),
+          settings.normalization,
+        )
+      : "";
+    const [script] = LanguageGuesser.getTopScript(text);
+    const share = getScriptDistribution(text).find(([key]) => key === script);
+    const metric = resolveMetric(settings.metric);
+    const tuples = LanguageGuesser.asTuples(text);
+    const { models, indexes } = LanguageGuesser.getScriptModels(
+      getModelFamilies(script, settings),
+      this.registry,
+    );
+    // Follows the routing of detectScores, so that trigrams are only
+    // reported when they decided the scores.
+    let decidedBy: IExplanation["decidedBy"] = "trigrams";
+    if (scores[0][0] === "und") decidedBy = "none";
+    else if (text.length < (settings.minLength ?? 10)) decidedBy = "lexicon";
+    else if (!models && CJK_SCRIPTS.includes(script)) decidedBy = "cjk";
+    else if (!models) decidedBy = "script";
+
+    const candidates = this.toGuesses(scores)
+      .slice(0, limit)
+      .map((guess): IExplainedCandidate => {
+        const model = models?.[guess.alpha3];
+        if (!model || decidedBy !== "trigrams") {
+          return { ...guess, matched: [], missing: [] };
+        }
+        const index = indexes[guess.alpha3];
+        const contributions = metric.contributions?.(tuples, model, index);
+        const matched: ITrigramContribution[] = [];
+        const missing: ITrigramContribution[] = [];
+        tuples.forEach(([trigram, frequency], i) => {
+          const rank = lookupRank(index, trigram);
+          const contribution = contributions?.[i];
+          if (rank === undefined) {
+            missing.push({ trigram, frequency, contribution });
+          } else {
+            matched.push({ trigram, frequency, rank, contribution });
+          }
+        });
+        matched.sort((a, b) => (a.rank ?? 0) - (b.rank ?? 0));
+        missing.sort((a, b) => b.frequency - a.frequency);
+        return {
+          ...guess,
+          distance: metric.distance(tuples, model, index),
+          matched,
+          missing,
+        };
+      });
+
+    return {
+      decidedBy,
+      script,
+      scriptShare: share?.[1] ?? 0,
+      metric: metric.name,
+      length: text.length,
+      trigrams: tuples.length,
+      candidates,
+    };
+  }
+
+  /**
+   * Guesses the languages of a text written in several scripts, e.g. Serbian
+   * mixing Cyrillic and Latin, or Hindi with English words.
+   * Each script's portion is scored against its own models, and the outcomes
+   * are combined, weighted by the share of the text each script covers.
+   * Scores are calibrated probabilities, as in `guessCalibrated`.
+   * @param utterance Text to analyze.
+   * @param options (Optional) Allow and deny lists and limit; `mixed` is ignored.
+   * @returns Combined guesses and the breakdown by script.
+   */
+  public detectScripts(
+    utterance: string,
+    options: IGuessOptions = {},
+  ): IScriptBreakdown {
+    const { allowList = [], denyList = [], limit = 3 } = options;
+    const text = sampleText(utterance || "", this.defaultSettings.sampling);
+    const portions = splitByScript(text);
+    // Probabilities of every candidate of each portion, so that weighting
+    // by coverage yields combined scores that also sum to at most 1.
+    const candidates = getScriptDistribution(text).map(([script, coverage]) => {
+      const portion = portions[script] ?? "";
+      const { results } = this.guessCalibrated(
+        portion,
+        allowList,
+        Infinity,
+        denyList,
+      );
+      return {
+        script,
+        coverage,
+        text: portion,
+        results: results.map((guess) => ({
+          ...guess,
+          script,
+          tag: toLanguageTag(guess, script, portion),
+        })),
+      };
+    });
+    // Combine the portions' guesses, keeping the script contributing most to each.
+    const combined: Record<string, ITaggedGuess> = {};
+    const contributions: Record<string, number> = {};
+    candidates.forEach(({ coverage, results }) => {
+      results.forEach((guess) => {
+        if (guess.alpha3 === "und") return;
+        const contribution = guess.score * coverage;
+        const entry = combined[guess.alpha3];
+        if (!entry || contribution > contributions[guess.alpha3]) {
+          combined[guess.alpha3] = {
+            ...guess,
+            score: (entry?.score ?? 0) + contribution,
+          };
+          contributions[guess.alpha3] = contribution;
+        } else {
+          entry.score += contribution;
+        }
+      });
+    });
+    const breakdown: IScriptPortion[] = candidates.map((portion) => ({
+      ...portion,
+      results: portion.results.slice(0, limit),
+    }));
+    const results = Object.values(combined).sort((a, b) => b.score - a.score);
+    return {
+      results:
+        results.length > 0
+          ? results.slice(0, limit)
+          : [
+              {
+                alpha3: "und",
+                alpha2: "",
+                language: "Undetermined",
+                score: 0,
+                script: "und",
+                tag: "und",
+              },
+            ],
+      scripts: breakdown,
+    };
+  }
+
+  /**
+   * Guesses segments of a mixed-language text and aggregates their candidates.
+   * Splits text using sentence boundaries or (if needed) sliding window segmentation.
+   * @param utterance Text to analyze.
+   * @param allowList List of allowed language codes.
+   * @param denyList List of languages to ignore.
+   * @param segmentationOptions Optional segmentation parameters (windowSize, stepSize).
+   * @returns Guesses sorted by aggregated score, each tagged with the script
+   * of the segments that contributed most to it, or "und" if no segment is determined.
+   */
+  private aggregateMixed(
+    utterance: string,
+    allowList: string[],
+    denyList: string[],
+    segmentationOptions?: ISegmentationOptions,
+  ): ITaggedGuess[] {
     // First, attempt to split the text on sentence boundaries.
     let segments = utterance
       .split(/(?<=[.!?])\s+/)
@@ -405,8 +1381,8 @@ export class LanguageGuesser {
       segments = [utterance];
     } else if (segments.length === 1 && segments[0].length > 40) {
       const longSegment = segments[0];
-      const windowSize = segmentationOptions?.windowSize ?? 40;
-      const stepSize = segmentationOptions?.stepSize ?? 20;
+      const windowSize = segmentationOptions?.windowSize ?? DEFAULT_WINDOW_SIZE;
+      const stepSize = segmentationOptions?.stepSize ?? DEFAULT_STEP_SIZE;
       segments = [];
       for (let i = 0; i < longSegment.length; i += stepSize) {
         segments.push(longSegment.substring(i, i + windowSize));
@@ -418,36 +1394,111 @@ export class LanguageGuesser {
       {
         totalScore: number;
         totalWeight: number;
+        scriptWeights: Record<string, number>;
         alpha2: string;
         alpha3: string;
         language: string;
       }
     > = {};
     segments.forEach((segment) => {
-      const candidates = this.guess(segment, allowList, 3);
+      const candidates = this.guess(segment, allowList, 3, denyList);
+      const [script] = LanguageGuesser.getTopScript(segment);
       const weight = segment.length;
       candidates.forEach(({ alpha3, alpha2, language, score }) => {
+        if (alpha3 === "und") return;
         if (!aggregated[alpha3]) {
           aggregated[alpha3] = {
             totalScore: 0,
             totalWeight: 0,
+            scriptWeights: {},
             alpha2,
             alpha3,
             language,
           };
         }
-        aggregated[alpha3].totalScore += score * weight;
-        aggregated[alpha3].totalWeight += weight;
+        const entry = aggregated[alpha3];
+        entry.totalScore += score * weight;
+        entry.totalWeight += weight;
+        entry.scriptWeights[script] =
+          (entry.scriptWeights[script] || 0) + weight;
       });
     });
     // Compute weighted average scores.
-    const results = Object.values(aggregated).map((entry) => ({
-      alpha2: entry.alpha2,
-      alpha3: entry.alpha3,
-      language: entry.language,
-      score: entry.totalWeight ? entry.totalScore / entry.totalWeight : 0,
-    }));
+    const results = Object.values(aggregated).map((entry) => {
+      const [script] = Object.entries(entry.scriptWeights).sort(
+        (a, b) => b[1] - a[1],
+      )[0];
+      return {
+        alpha2: entry.alpha2,
+        alpha3: entry.alpha3,
+        language: entry.language,
+        score: entry.totalWeight ? entry.totalScore / entry.totalWeight : 0,
+        script,
+        tag: toLanguageTag(entry, script, utterance),
+      };
+    });
     results.sort((a, b) => b.score - a.score);
-    return results.slice(0, limit);
+    if (results.length > 0) return results;
+    const [script] = LanguageGuesser.getTopScript(utterance);
+    return [
+      {
+        alpha3: "und",
+        alpha2: "",
+        language: "Undetermined",
+        score: 0,
+        script,
+        tag: "und",
+      },
+    ];
+  }
+
+  /**
+   * Splits text into contiguous spans, each in a single language.
+   * Sliding windows are guessed independently, adjacent windows of the same
+   * language are merged and isolated flips between agreeing neighbours are smoothed out.
+   * @param utterance Text to analyze.
+   * @param allowList (Optional) List of allowed language codes.
+   * @param segmentationOptions Optional segmentation parameters (windowSize, stepSize, smoothing).
+   * @returns Spans with character offsets, language and confidence, covering the whole text.
+   */
+  public segment(
+    utterance: string,
+    allowList: string[] = [],
+    segmentationOptions: ISegmentationOptions = {},
+  ): ITextSegment[] {
+    const {
+      windowSize = DEFAULT_WINDOW_SIZE,
+      stepSize = DEFAULT_STEP_SIZE,
+      smoothing = true,
+    } = segmentationOptions;
+    const windows: LabelledRange[] = buildWindows(
+      utterance.length,
+      windowSize,
+      stepSize,
+    ).map(([start, end]) => {
+      const { results, confidence } = this.guessCalibrated(
+        utterance.substring(start, end),
+        allowList,
+        1,
+      );
+      return { start, end, label: results[0].alpha3, confidence };
+    });
+    let ranges = voteCells(windows);
+    if (smoothing) ranges = smoothCells(ranges);
+    ranges = snapToWords(utterance, mergeCells(ranges), stepSize);
+    return ranges.map(({ start, end, label, confidence }) => {
+      const [guess] = this.toGuesses([[label, confidence]]);
+      return {
+        ...(guess ?? {
+          alpha3: "und",
+          alpha2: "",
+          language: "Undetermined",
+          score: 0,
+        }),
+        start,
+        end,
+        text: utterance.substring(start, end),
+      };
+    });
   }
 }
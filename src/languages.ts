@@ -0,0 +1,193 @@
+import languageDataRaw from "./data/languages.json";
+import { ILanguageData } from "./interfaces/ILanguageData.js";
+
+/**
+ * Bundled language metadata.
+ */
+export const languageData: ILanguageData[] =
+  languageDataRaw as unknown as ILanguageData[];
+
+/**
+ * Code systems a language code can be converted to: ISO 639‑1, ISO 639‑3,
+ * and the bibliographic and terminology forms of ISO 639‑2.
+ */
+export type LanguageCodeSystem =
+  "alpha2" | "alpha3" | "bibliographic" | "terminology";
+
+// Localized names, one formatter per locale.
+const displayNamesCache = new Map<string, Intl.DisplayNames>();
+
+/**
+ * Returns the name of a language in a locale, as known to the runtime.
+ * @param tag Language code.
+ * @param locale Locale of the name.
+ * @returns Localized name, or undefined if the runtime has none.
+ * @throws {RangeError} If the locale is not a valid locale.
+ */
+function getDisplayName(tag: string, locale: string): string | undefined {
+  let displayNames = displayNamesCache.get(locale);
+  if (!displayNames) {
+    displayNames = new Intl.DisplayNames([locale], {
+      type: "language",
+      fallback: "none",
+    });
+    displayNamesCache.set(locale, displayNames);
+  }
+  try {
+    return displayNames.of(tag);
+  } catch {
+    // Registered codes are not always valid language tags.
+    return undefined;
+  }
+}
+
+/**
+ * Set of language metadata that codes are looked up and converted against.
+ * Every lookup accepts any code form, case-insensitively: alpha‑2, alpha‑3,
+ * ISO 639‑2/B and /T, and aliases such as "iw" or "fil".
+ */
+export class LanguageCatalog {
+  // languages[alpha3] = metadata
+  private languages: Record<string, ILanguageData> = {};
+  // codes[code] = alpha3, for every other form of a code
+  private codes: Record<string, string> = {};
+  // members[macrolanguage] = alpha3 codes of its individual languages
+  private members: Record<string, Set<string>> = {};
+
+  /**
+   * Creates a catalog.
+   * @param languages (Optional) Initial metadata. Defaults to the bundled metadata.
+   */
+  constructor(languages: ILanguageData[] = languageData) {
+    languages.forEach((language) => this.register(language));
+  }
+
+  /**
+   * Registers the metadata of a language. Existing metadata for the same
+   * alpha‑3 code is replaced.
+   * @param language Language data.
+   */
+  register(language: ILanguageData): void {
+    this.languages[language.alpha3] = language;
+    [
+      language.alpha2,
+      language.bibliographic,
+      language.terminology,
+      ...(language.aliases ?? []),
+    ].forEach((code) => {
+      if (code) this.codes[code.toLowerCase()] = language.alpha3;
+    });
+    if (language.macrolanguage) {
+      this.addMembers(language.macrolanguage, [language.alpha3]);
+    }
+    if (language.members) this.addMembers(language.alpha3, language.members);
+  }
+
+  /**
+   * Records individual languages of a macrolanguage.
+   * @param macrolanguage Code of the macrolanguage (ISO 639‑3).
+   * @param members Codes of the individual languages (ISO 639‑3).
+   */
+  private addMembers(macrolanguage: string, members: string[]): void {
+    if (!this.members[macrolanguage]) {
+      this.members[macrolanguage] = new Set();
+    }
+    const known = this.members[macrolanguage];
+    members.forEach((member) => known.add(member));
+  }
+
+  /**
+   * Looks up a language by code.
+   * @param code Language code, in any form.
+   * @returns Language data, or undefined if the code is unknown.
+   */
+  get(code: string): ILanguageData | undefined {
+    const lowercased = code.toLowerCase();
+    return (
+      this.languages[code] ??
+      this.languages[lowercased] ??
+      this.languages[this.codes[lowercased]]
+    );
+  }
+
+  /**
+   * Lists every language of the catalog.
+   * @returns Language data.
+   */
+  list(): ILanguageData[] {
+    return Object.values(this.languages);
+  }
+
+  /**
+   * Lists the individual languages of a macrolanguage, e.g. "cmn" and "yue"
+   * for "zho", or "nob" and "nno" for "nor".
+   * @param code Code of the macrolanguage, in any form.
+   * @returns Alpha‑3 codes, empty if the code is not a macrolanguage.
+   */
+  getMembers(code: string): string[] {
+    const lowercased = code.toLowerCase();
+    const language = this.get(code);
+    // Alpha‑2 and ISO 639‑2 codes may stand for a macrolanguage ("zh" for
+    // "zho"); the alpha‑3 code of an individual language never does.
+    const key =
+      this.members[lowercased] || !language || language.alpha3 === lowercased
+        ? lowercased
+        : language.terminology || language.alpha3;
+    return [...(this.members[key] ?? [])];
+  }
+
+  /**
+   * Resolves codes to alpha‑3 codes. Macrolanguage codes, and the alpha‑2 and
+   * ISO 639‑2 codes standing for them, also resolve to their individual
+   * languages: "zh" gives "cmn" and "yue", while "cmn" only gives "cmn".
+   * @param codes Language codes, in any form.
+   * @returns Alpha‑3 codes without duplicates, and the codes that match no language.
+   */
+  resolve(codes: string[]): { codes: string[]; unknown: string[] } {
+    const resolved = new Set<string>();
+    const unknown: string[] = [];
+    codes.forEach((code) => {
+      const language = this.get(code);
+      const members = this.getMembers(code);
+      if (!language && members.length === 0) {
+        unknown.push(code);
+        return;
+      }
+      if (language) resolved.add(language.alpha3);
+      members.forEach((member) => resolved.add(member));
+    });
+    return { codes: [...resolved], unknown };
+  }
+
+  /**
+   * Converts a language code to another code system.
+   * @param code Language code, in any form.
+   * @param system Code system to convert to.
+   * @returns Converted code, or undefined if the code is unknown or the
+   * language has no code in that system.
+   */
+  convert(code: string, system: LanguageCodeSystem): string | undefined {
+    const language = this.get(code);
+    if (!language) return undefined;
+    return (language[system] ?? language.alpha3) || undefined;
+  }
+
+  /**
+   * Returns the name of a language.
+   * @param code Language code, in any form.
+   * @param locale (Optional) Locale of the name (e.g. "fr"), localized with
+   * `Intl.DisplayNames`. Defaults to the English name of the metadata, which
+   * is also used when the runtime has no localized name.
+   * @returns Language name, or undefined if the code is unknown.
+   * @throws {RangeError} If the locale is not a valid locale.
+   */
+  getName(code: string, locale?: string): string | undefined {
+    const language = this.get(code);
+    if (!language) return undefined;
+    if (!locale) return language.name;
+    return (
+      getDisplayName(language.alpha2 || language.alpha3, locale) ??
+      language.name
+    );
+  }
+}
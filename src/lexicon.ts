@@ -0,0 +1,118 @@
+import { Tokenizer } from "@the-horizon-dev/fast-tokenizer";
+import lexiconDataRaw from "./data/lexicon.json";
+
+// Inputs shorter than this (in characters) are scored with the lexicon.
+export const LEXICON_MAX_LENGTH = 30;
+
+// Weight of the lexicon score when combined with the trigram score.
+export const LEXICON_WEIGHT = 0.5;
+
+// Word list of a language: an array, or a space‑separated string.
+export type LexiconValue = string | string[];
+
+// Words are compared after the same normalization on both sides.
+const TOKENIZER_OPTIONS = {
+  lowercase: true,
+  removeDiacritics: true,
+};
+
+/**
+ * Splits text into normalized words (lowercase, without diacritics).
+ * @param text Text to split.
+ * @returns Words.
+ */
+export function tokenizeWords(text: string): string[] {
+  return Tokenizer.tokenize(text, TOKENIZER_OPTIONS);
+}
+
+/**
+ * Parses a word list into normalized words.
+ * @param value Word list.
+ * @returns Words, without duplicates.
+ */
+export function parseLexiconValue(value: LexiconValue): string[] {
+  const words = typeof value === "string" ? [value] : value;
+  return [...new Set(words.flatMap((word) => tokenizeWords(word)))];
+}
+
+/**
+ * Bundled word lists: high-frequency words per language (alpha‑3).
+ */
+export const lexiconData: Record<string, string[]> = {};
+for (const lang in lexiconDataRaw) {
+  lexiconData[lang] = parseLexiconValue(
+    (lexiconDataRaw as Record<string, string>)[lang],
+  );
+}
+
+// Word sets shared by every registry holding the same word list.
+const wordSetCache = new WeakMap<string[], Set<string>>();
+
+/**
+ * Returns the set of words of a word list.
+ * @param words Normalized words.
+ * @returns Word set.
+ */
+function wordSet(words: string[]): Set<string> {
+  let set = wordSetCache.get(words);
+  if (!set) {
+    set = new Set(words);
+    wordSetCache.set(words, set);
+  }
+  return set;
+}
+
+/**
+ * Scores languages by the share of the text's words found in their word lists.
+ * @param text Text to analyze.
+ * @param lexicons Word lists as lexicons[lang].
+ * @param allowList (Optional) Allowed languages (alpha‑3).
+ * @param denyList (Optional) Ignored languages (alpha‑3).
+ * @returns Sorted list of [language, score] tuples for languages with at least one known word.
+ */
+export function scoreLexicon(
+  text: string,
+  lexicons: Record<string, string[]>,
+  allowList: string[] = [],
+  denyList: string[] = [],
+): [string, number][] {
+  const words = tokenizeWords(text);
+  if (words.length === 0) return [];
+  const scores: [string, number][] = [];
+  for (const lang in lexicons) {
+    if (allowList.length > 0 && !allowList.includes(lang)) continue;
+    if (denyList.includes(lang)) continue;
+    const set = wordSet(lexicons[lang]);
+    const hits = words.filter((word) => set.has(word)).length;
+    if (hits > 0) scores.push([lang, hits / words.length]);
+  }
+  return scores.sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Combines trigram scores with lexicon scores. Languages missing from one
+ * of the lists score 0 in it; ties are broken by the lexicon scores.
+ * @param trigramScores Sorted list of [language, score] tuples from the trigram models.
+ * @param lexiconScores Sorted list of [language, score] tuples from `scoreLexicon`.
+ * @param weight Weight of the lexicon scores, between 0 and 1.
+ * @returns Sorted list of [language, score] tuples.
+ */
+export function combineScores(
+  trigramScores: [string, number][],
+  lexiconScores: [string, number][],
+  weight = LEXICON_WEIGHT,
+): [string, number][] {
+  const combined: Record<string, number> = {};
+  const lexical: Record<string, number> = {};
+  trigramScores.forEach(([lang, score]) => {
+    combined[lang] = (1 - weight) * score;
+  });
+  lexiconScores.forEach(([lang, score]) => {
+    combined[lang] = (combined[lang] ?? 0) + weight * score;
+    lexical[lang] = score;
+  });
+  // Ties go to the language whose words were found.
+  return Object.entries(combined).sort(
+    (a, b) => b[1] - a[1] || (lexical[b[0]] ?? 0) - (lexical[a[0]] ?? 0),
+  );
+}
@@ -0,0 +1,175 @@
+import { IDistanceMetric } from "./interfaces/IDistanceMetric.js";
+import { lookupRank } from "./binary.js";
+
+// A constant for missing trigram penalty.
+export const MISSING_TRIGRAM_PENALTY = 300;
+
+// Probability mass reserved for trigrams missing from a model, and the
+// number of distinct trigrams it is spread over.
+const UNSEEN_MASS = 0.01;
+const UNSEEN_VOCABULARY = 10000;
+
+// Temperatures (see `IDistanceMetric.temperature`) of the naive Bayes and
+// cosine metrics, whose distances between candidates spread less than the
+// rank metric's, especially on short texts for cosine.
+const BAYES_TEMPERATURE = 35;
+const COSINE_TEMPERATURE = 30;
+
+// Zipf weight of the trigram at a given model rank.
+const zipf = (rank: number): number => 1 / (rank + 1);
+
+// Harmonic numbers, cached by model length.
+const harmonics: Record<number, number> = {};
+const harmonic = (n: number): number => {
+  if (!(n in harmonics)) {
+    let sum = 0;
+    for (let rank = 0; rank < n; rank++) sum += zipf(rank);
+    harmonics[n] = sum;
+  }
+  return harmonics[n];
+};
+
+/**
+ * Rank distance: for each trigram, half the difference between its frequency
+ * in the text and its rank in the model, or `MISSING_TRIGRAM_PENALTY` if missing.
+ */
+export const rankMetric: IDistanceMetric = {
+  name: "rank",
+  distance(trigrams, _model, modelIndex) {
+    return trigrams.reduce((distance, [trigram, freq]) => {
+      const rank = lookupRank(modelIndex, trigram);
+      if (rank === undefined) {
+        return distance + MISSING_TRIGRAM_PENALTY;
+      } else {
+        return distance + Math.abs(freq - rank) / 2;
+      }
+    }, 0);
+  },
+  contributions(trigrams, _model, modelIndex) {
+    return trigrams.map(([trigram, freq]) => {
+      const rank = lookupRank(modelIndex, trigram);
+      return rank === undefined
+        ? MISSING_TRIGRAM_PENALTY
+        : Math.abs(freq - rank) / 2;
+    });
+  },
+};
+
+/**
+ * Naive Bayes: negative log‑likelihood of the text's trigram frequencies,
+ * estimating each trigram's probability from its model rank (Zipf's law).
+ * Costs are rescaled so a missing trigram costs `MISSING_TRIGRAM_PENALTY`.
+ */
+export const bayesMetric: IDistanceMetric = {
+  name: "bayes",
+  temperature: BAYES_TEMPERATURE,
+  distance(trigrams, model, modelIndex) {
+    if (trigrams.length === 0) return 0;
+    const norm = harmonic(model.length);
+    const missingCost = -Math.log(UNSEEN_MASS / UNSEEN_VOCABULARY);
+    let total = 0;
+    let count = 0;
+    trigrams.forEach(([trigram, freq]) => {
+      const rank = lookupRank(modelIndex, trigram);
+      const p =
+        rank === undefined
+          ? UNSEEN_MASS / UNSEEN_VOCABULARY
+          : ((1 - UNSEEN_MASS) * zipf(rank)) / norm;
+      total += freq * -Math.log(p);
+      count += freq;
+    });
+    // Averaged per occurrence, then scaled to the number of distinct trigrams.
+    return (
+      ((total / count) * trigrams.length * MISSING_TRIGRAM_PENALTY) /
+      missingCost
+    );
+  },
+  contributions(trigrams, model, modelIndex) {
+    const norm = harmonic(model.length);
+    const missingCost = -Math.log(UNSEEN_MASS / UNSEEN_VOCABULARY);
+    const count = trigrams.reduce((sum, [, freq]) => sum + freq, 0);
+    const scale =
+      (trigrams.length * MISSING_TRIGRAM_PENALTY) / (count * missingCost);
+    return trigrams.map(([trigram, freq]) => {
+      const rank = lookupRank(modelIndex, trigram);
+      const p =
+        rank === undefined
+          ? UNSEEN_MASS / UNSEEN_VOCABULARY
+          : ((1 - UNSEEN_MASS) * zipf(rank)) / norm;
+      return freq * -Math.log(p) * scale;
+    });
+  },
+};
+
+/**
+ * Cosine distance between the text's trigram frequencies and model weights
+ * decreasing linearly with rank, scaled by `MISSING_TRIGRAM_PENALTY` per distinct trigram.
+ */
+export const cosineMetric: IDistanceMetric = {
+  name: "cosine",
+  temperature: COSINE_TEMPERATURE,
+  distance(trigrams, model, modelIndex) {
+    if (trigrams.length === 0) return 0;
+    const weight = (rank: number): number => 1 - rank / model.length;
+    let dot = 0;
+    let textNorm = 0;
+    trigrams.forEach(([trigram, freq]) => {
+      const rank = lookupRank(modelIndex, trigram);
+      if (rank !== undefined) dot += freq * weight(rank);
+      textNorm += freq * freq;
+    });
+    let modelNorm = 0;
+    for (let rank = 0; rank < model.length; rank++) {
+      modelNorm += weight(rank) ** 2;
+    }
+    const similarity = dot / Math.sqrt(textNorm * modelNorm) || 0;
+    return (1 - similarity) * trigrams.length * MISSING_TRIGRAM_PENALTY;
+  },
+  contributions(trigrams, model, modelIndex) {
+    // Each trigram costs the missing penalty, minus its share of the similarity.
+    const weight = (rank: number): number => 1 - rank / model.length;
+    const textNorm = trigrams.reduce((sum, [, freq]) => sum + freq * freq, 0);
+    let modelNorm = 0;
+    for (let rank = 0; rank < model.length; rank++) {
+      modelNorm += weight(rank) ** 2;
+    }
+    const scale =
+      (trigrams.length * MISSING_TRIGRAM_PENALTY) /
+      Math.sqrt(textNorm * modelNorm);
+    return trigrams.map(([trigram, freq]) => {
+      const rank = lookupRank(modelIndex, trigram);
+      return (
+        MISSING_TRIGRAM_PENALTY -
+        (rank === undefined ? 0 : freq * weight(rank) * scale)
+      );
+    });
+  },
+};
+
+/**
+ * Built-in distance metrics, by name.
+ */
+export const distanceMetrics: Record<string, IDistanceMetric> = {
+  rank: rankMetric,
+  bayes: bayesMetric,
+  cosine: cosineMetric,
+};
+
+/**
+ * Resolves a metric setting to a metric.
+ * @param metric Metric name or custom metric. Defaults to the rank metric.
+ * @returns The distance metric.
+ * @throws {Error} If the name does not match a built-in metric.
+ */
+export function resolveMetric(
+  metric: string | IDistanceMetric = rankMetric,
+): IDistanceMetric {
+  if (typeof metric !== "string") return metric;
+  const resolved = distanceMetrics[metric];
+  if (!resolved) {
+    throw new Error(
+      `Unknown distance metric "${metric}". Expected one of: ${Object.keys(distanceMetrics).join(", ")}.`,
+    );
+  }
+  return resolved;
+}
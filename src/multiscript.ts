@@ -0,0 +1,74 @@
+import { scripts } from "./regex.js";
+import { CJK_SCRIPTS } from "./cjk.js";
+
+const scriptKeys = Object.keys(scripts);
+
+/**
+ * Counts the characters of each script in a text.
+ * @param text Text to analyze.
+ * @returns Counts keyed by script identifier, without empty scripts.
+ */
+function countScripts(text: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const key of scriptKeys) {
+    const count = text.match(scripts[key])?.length ?? 0;
+    if (count) counts[key] = count;
+  }
+  return counts;
+}
+
+/**
+ * Finds the dominant CJK script (Han, kana or Hangul) among script counts.
+ * Han, kana and Hangul are mixed within a single language, so they are
+ * always grouped under this script.
+ * @param counts Character counts keyed by script identifier.
+ * @returns Script identifier, or undefined if there are no CJK characters.
+ */
+function dominantCjkScript(counts: Record<string, number>): string | undefined {
+  const present = CJK_SCRIPTS.filter((key) => counts[key]);
+  return present.sort((a, b) => counts[b] - counts[a])[0];
+}
+
+/**
+ * Computes the share of each script among the characters of a text.
+ * @param text Text to analyze.
+ * @returns Sorted list of [script, share] tuples, with shares summing to 1.
+ */
+export function getScriptDistribution(text: string): [string, number][] {
+  const counts = countScripts(text);
+  const cjk = dominantCjkScript(counts);
+  if (cjk) {
+    CJK_SCRIPTS.forEach((key) => {
+      if (key !== cjk && counts[key]) {
+        counts[cjk] += counts[key];
+        delete counts[key];
+      }
+    });
+  }
+  const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  return Object.entries(counts)
+    .map(([key, count]): [string, number] => [key, count / total])
+    .sort((a, b) => b[1] - a[1]);
+}
+
+/**
+ * Splits a text into one portion per script. Each word goes to the script
+ * most of its characters belong to; words without letters are dropped.
+ * @param text Text to split.
+ * @returns Portions keyed by script identifier, with words joined by spaces.
+ */
+export function splitByScript(text: string): Record<string, string> {
+  const cjk = dominantCjkScript(countScripts(text));
+  const words: Record<string, string[]> = {};
+  for (const [word] of text.matchAll(/\S+/gu)) {
+    const [top] = Object.entries(countScripts(word)).sort(
+      (a, b) => b[1] - a[1],
+    );
+    if (!top) continue;
+    const key = cjk && CJK_SCRIPTS.includes(top[0]) ? cjk : top[0];
+    (words[key] = words[key] ?? []).push(word);
+  }
+  const portions: Record<string, string> = {};
+  for (const key in words) portions[key] = words[key].join(" ");
+  return portions;
+}
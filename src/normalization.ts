@@ -0,0 +1,95 @@
+import { INormalizationStep } from "./interfaces/INormalizationStep.js";
+
+/**
+ * Creates a step that replaces every match of a pattern with a space.
+ * @param name Step name.
+ * @param pattern Global pattern matching the noise to strip.
+ * @returns The normalization step.
+ */
+function stripStep(name: string, pattern: RegExp): INormalizationStep {
+  return { name, apply: (text) => text.replace(pattern, " ") };
+}
+
+/**
+ * Built-in normalization steps, by name.
+ */
+export const normalizationSteps: Record<string, INormalizationStep> = {
+  // Unicode canonical composition, so equivalent text yields the same trigrams.
+  nfc: { name: "nfc", apply: (text) => text.normalize("NFC") },
+  // HTML tags and character entities.
+  html: stripStep("html", /<\/?[a-z][^>]*>|&(?:[a-z]+|#\d+|#x[\da-f]+);/giu),
+  // Fenced and inline Markdown code.
+  code: stripStep("code", /```[\s\S]*?```|`[^`\n]*`/gu),
+  urls: stripStep("urls", /\b(?:[a-z][a-z\d+.-]*:\/\/|www\.)\S+/giu),
+  emails: stripStep(
+    "emails",
+    /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}-]+(?:\.[\p{L}\p{N}-]+)+/gu,
+  ),
+  mentions: stripStep("mentions", /(?<!\S)@[\p{L}\p{N}_]+/gu),
+  hashtags: stripStep("hashtags", /(?<!\S)#[\p{L}\p{N}_]+/gu),
+  // Pictographs with their modifiers, joiners and variation selectors, and flags.
+  emoji: stripStep(
+    "emoji",
+    /(?:[\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}]|\u200d|\ufe0f)+/gu,
+  ),
+  digits: stripStep("digits", /\p{N}+/gu),
+  casefold: { name: "casefold", apply: (text) => text.toLowerCase() },
+};
+
+// Steps applied when normalization is enabled without a custom pipeline.
+// Code and HTML go first, as they may contain URLs and e‑mail addresses,
+// and e‑mail addresses before mentions.
+export const DEFAULT_NORMALIZATION = [
+  "nfc",
+  "code",
+  "html",
+  "urls",
+  "emails",
+  "mentions",
+  "hashtags",
+  "emoji",
+  "digits",
+  "casefold",
+];
+
+/**
+ * Resolves a normalization setting to the steps to apply.
+ * @param normalization True for the default steps, or a list of step names and custom steps.
+ * @returns The steps, in order.
+ * @throws {Error} If a name does not match a built-in step.
+ */
+export function resolveNormalization(
+  normalization: boolean | (string | INormalizationStep)[] = false,
+): INormalizationStep[] {
+  if (normalization === false) return [];
+  const steps = normalization === true ? DEFAULT_NORMALIZATION : normalization;
+  return steps.map((step) => {
+    if (typeof step !== "string") return step;
+    const resolved = normalizationSteps[step];
+    if (!resolved) {
+      throw new Error(
+        `Unknown normalization step "${step}". Expected one of: ${Object.keys(normalizationSteps).join(", ")}.`,
+      );
+    }
+    return resolved;
+  });
+}
+
+/**
+ * Runs text through a normalization pipeline and collapses the whitespace
+ * left behind into single spaces.
+ * @param text Text to normalize.
+ * @param normalization True for the default steps, or a list of step names and custom steps.
+ * Without normalization the text is returned unchanged.
+ * @returns Normalized text.
+ */
+export function normalizeText(
+  text: string,
+  normalization?: boolean | (string | INormalizationStep)[],
+): string {
+  const steps = resolveNormalization(normalization);
+  if (steps.length === 0) return text;
+  return steps
+    .reduce((current, step) => step.apply(current), text)
+    .replace(/\s+/gu, " ");
+}
@@ -0,0 +1,9 @@
+import models from "../data/ngrams/arabic.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for the Arabic script.
+ */
+const arabic: ILanguagePack = { script: "Arabic", models };
+
+export default arabic;
@@ -0,0 +1,9 @@
+import models from "../data/ngrams/cyrillic.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for the Cyrillic script.
+ */
+const cyrillic: ILanguagePack = { script: "Cyrillic", models };
+
+export default cyrillic;
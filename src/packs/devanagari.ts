@@ -0,0 +1,9 @@
+import models from "../data/ngrams/devanagari.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for the Devanagari script.
+ */
+const devanagari: ILanguagePack = { script: "Devanagari", models };
+
+export default devanagari;
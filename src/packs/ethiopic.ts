@@ -0,0 +1,9 @@
+import models from "../data/ngrams/ethiopic.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for the Ethiopic script.
+ */
+const ethiopic: ILanguagePack = { script: "Ethiopic", models };
+
+export default ethiopic;
@@ -0,0 +1,9 @@
+import models from "../data/ngrams/hebrew.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for the Hebrew script.
+ */
+const hebrew: ILanguagePack = { script: "Hebrew", models };
+
+export default hebrew;
@@ -0,0 +1,18 @@
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+// Loads a language pack on demand.
+export type PackLoader = () => Promise<ILanguagePack>;
+
+/**
+ * Loaders for the bundled language packs, keyed by script.
+ * Each pack is imported dynamically so bundlers can split it into its own chunk.
+ */
+export const packLoaders: Record<string, PackLoader> = {
+  Latin: () => import("./latin.js").then((m) => m.default),
+  Cyrillic: () => import("./cyrillic.js").then((m) => m.default),
+  Arabic: () => import("./arabic.js").then((m) => m.default),
+  Devanagari: () => import("./devanagari.js").then((m) => m.default),
+  Ethiopic: () => import("./ethiopic.js").then((m) => m.default),
+  Hebrew: () => import("./hebrew.js").then((m) => m.default),
+  Romanized: () => import("./romanized.js").then((m) => m.default),
+};
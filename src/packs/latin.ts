@@ -0,0 +1,9 @@
+import models from "../data/ngrams/latin.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for the Latin script.
+ */
+const latin: ILanguagePack = { script: "Latin", models };
+
+export default latin;
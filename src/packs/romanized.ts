@@ -0,0 +1,10 @@
+import models from "../data/ngrams/romanized.json";
+import { ILanguagePack } from "../interfaces/ILanguagePack.js";
+
+/**
+ * N‑gram models for languages typed in Latin letters instead of their native
+ * script: Hindi, Arabic, Russian and Greek.
+ */
+const romanized: ILanguagePack = { script: "Romanized", models };
+
+export default romanized;
@@ -0,0 +1,72 @@
+import { DISTANCE_TEMPERATURE } from "./confidence.js";
+import { ILabelledSample } from "./interfaces/IEvaluationReport.js";
+
+// Smallest prior given to a candidate, so priors never rule a language out.
+export const MIN_PRIOR = 1e-6;
+
+// Share of the probability left by `estimatePriors` to languages never seen.
+export const DEFAULT_UNSEEN_SHARE = 0.01;
+
+/**
+ * Combines distances with prior probabilities. Each distance grows by
+ * `temperature * -ln(prior)`, which multiplies the candidate's odds by its
+ * prior: priors settle near ties, while clear trigram evidence still wins,
+ * all the more on long texts.
+ * Priors summing to more than 1 are rescaled; candidates without a prior
+ * share evenly what the listed priors leave.
+ * @param distances Sorted list of [language, distance] tuples.
+ * @param priors Prior probabilities as priors[lang].
+ * @param temperature (Optional) Distance difference dividing odds by e in
+ * the metric's scale (see `IDistanceMetric.temperature`).
+ * @returns Sorted list of [language, distance] tuples.
+ */
+export function applyPriors(
+  distances: [string, number][],
+  priors: Record<string, number>,
+  temperature = DISTANCE_TEMPERATURE,
+): [string, number][] {
+  const total = Object.values(priors).reduce((sum, p) => sum + p, 0);
+  const scale = total > 1 ? 1 / total : 1;
+  const unlisted = distances.filter(([lang]) => !(lang in priors)).length;
+  const rest = unlisted > 0 ? (1 - total * scale) / unlisted : 0;
+  return distances
+    .map(([lang, distance]): [string, number] => {
+      const prior = lang in priors ? priors[lang] * scale : rest;
+      return [
+        lang,
+        distance - temperature * Math.log(Math.max(MIN_PRIOR, prior)),
+      ];
+    })
+    .sort((a, b) => a[1] - b[1]);
+}
+
+/**
+ * Estimates prior probabilities from past traffic, e.g. the labels of a
+ * dataset read with `parseDataset`.
+ * @param samples Language codes, or labelled samples.
+ * @param unseenShare (Optional) Share of the probability left to languages
+ * missing from the samples, between 0 and 1.
+ * @returns Prior probabilities as priors[lang], summing to `1 - unseenShare`.
+ * @throws {Error} If there is no sample or `unseenShare` is out of range.
+ */
+export function estimatePriors(
+  samples: Iterable<string | ILabelledSample>,
+  unseenShare = DEFAULT_UNSEEN_SHARE,
+): Record<string, number> {
+  if (!(unseenShare >= 0 && unseenShare < 1)) {
+    throw new Error("Invalid unseenShare. Expected a number in [0, 1).");
+  }
+  const counts: Record<string, number> = {};
+  let total = 0;
+  for (const sample of samples) {
+    const label = typeof sample === "string" ? sample : sample.label;
+    counts[label] = (counts[label] ?? 0) + 1;
+    total++;
+  }
+  if (total === 0) throw new Error("No samples to estimate priors from.");
+  const priors: Record<string, number> = {};
+  for (const label in counts) {
+    priors[label] = (counts[label] / total) * (1 - unseenShare);
+  }
+  return priors;
+}
@@ -90,5 +90,45 @@ export const scripts: Record<string, RegExp> = {
   iii: /\p{Script=Yi}/gu,
 
   // Avestan script.
-  aii: /\p{Script=Avestan}/gu,
+  ave: /\p{Script=Avestan}/gu,
+
+  // Syriac script.
+  Syriac: /\p{Script=Syriac}/gu,
+};
+
+/**
+ * ISO 15924 codes of the scripts above, used as BCP 47 script subtags.
+ */
+export const scriptSubtags: Record<string, string> = {
+  cmn: "Hani",
+  Latin: "Latn",
+  Cyrillic: "Cyrl",
+  Arabic: "Arab",
+  ben: "Beng",
+  Devanagari: "Deva",
+  jpn: "Jpan",
+  kor: "Kore",
+  tel: "Telu",
+  tam: "Taml",
+  guj: "Gujr",
+  kan: "Knda",
+  mal: "Mlym",
+  Myanmar: "Mymr",
+  ori: "Orya",
+  pan: "Guru",
+  Ethiopic: "Ethi",
+  tha: "Thai",
+  sin: "Sinh",
+  ell: "Grek",
+  khm: "Khmr",
+  hye: "Armn",
+  sat: "Olck",
+  bod: "Tibt",
+  Hebrew: "Hebr",
+  kat: "Geor",
+  lao: "Laoo",
+  zgh: "Tfng",
+  iii: "Yiii",
+  ave: "Avst",
+  Syriac: "Syrc",
 };
@@ -0,0 +1,351 @@
+import { parseNgramValue, NgramValue } from "./ngrams.js";
+import { ILanguagePack } from "./interfaces/ILanguagePack.js";
+import { packLoaders, PackLoader } from "./packs/index.js";
+import { LexiconValue, lexiconData, parseLexiconValue } from "./lexicon.js";
+import { decodeModels } from "./binary.js";
+import { ModelIndex } from "./interfaces/IBinaryModelIndex.js";
+
+// Lookup indexes shared by every registry holding the same model array,
+// so the bundled models are only indexed once per process. Models read
+// from binary data come with their index already stored here.
+const indexCache = new WeakMap<string[], ModelIndex>();
+
+/**
+ * Builds the trigram lookup (trigram -> rank) for a single model.
+ * @param model N-gram model.
+ * @returns Lookup mapping each trigram to its rank.
+ */
+export function buildModelIndex(model: string[]): ModelIndex {
+  const cached = indexCache.get(model);
+  if (cached) return cached;
+  const index = model.reduce(
+    (acc, trigram, i) => {
+      // A trigram listed twice keeps its better rank, as in binary indexes.
+      if (!Object.prototype.hasOwnProperty.call(acc, trigram)) {
+        acc[trigram] = i;
+      }
+      return acc;
+    },
+    {} as Record<string, number>,
+  );
+  indexCache.set(model, index);
+  return index;
+}
+
+/**
+ * Set of n‑gram models, grouped by script, that a `LanguageGuesser` scores against.
+ * Each registry owns its model set: changes never leak into other registries.
+ */
+export class ModelRegistry {
+  // models[script][lang] = ranked trigrams
+  private models: Record<string, Record<string, string[]>> = {};
+  // Loaders for scripts whose pack has not been loaded yet.
+  private loaders: Record<string, PackLoader> = {};
+  private pending: Record<string, Promise<void>> = {};
+  // lexicons[lang] = high-frequency words
+  private lexicons: Record<string, string[]> = {};
+  // Lookup indexes per script, dropped whenever the script's models change.
+  private indexes: Record<string, Record<string, ModelIndex>> = {};
+  // Number of changes to the models and word lists.
+  private revision = 0;
+
+  /**
+   * Creates a registry.
+   * @param models (Optional) Initial models as models[script][lang].
+   * Without them, the bundled packs are loaded on demand.
+   * @param loaders (Optional) Pack loaders for scripts loaded on demand.
+   * Defaults to the bundled packs when no models are given, and to none otherwise.
+   * @param lexicons (Optional) Word lists as lexicons[lang]. Defaults to the bundled lists.
+   */
+  constructor(
+    models?: Record<string, Record<string, NgramValue>>,
+    loaders?: Record<string, PackLoader>,
+    lexicons: Record<string, LexiconValue> = lexiconData,
+  ) {
+    this.loaders = { ...(loaders ?? (models ? {} : packLoaders)) };
+    for (const lang in lexicons) {
+      this.lexicons[lang] = parseLexiconValue(lexicons[lang]);
+    }
+    if (models) {
+      for (const script in models) {
+        this.models[script] = {};
+        for (const lang in models[script]) {
+          this.models[script][lang] = parseNgramValue(models[script][lang]);
+        }
+      }
+    }
+  }
+
+  /**
+   * Creates a registry without any model or word list.
+   * @returns An empty registry.
+   */
+  static empty(): ModelRegistry {
+    return new ModelRegistry({}, {}, {});
+  }
+
+  /**
+   * Creates a registry that loads each script's pack the first time it is needed.
+   * @param loaders (Optional) Pack loaders keyed by script. Defaults to the bundled packs.
+   * @returns A registry without any loaded model.
+   */
+  static lazy(
+    loaders: Record<string, PackLoader> = packLoaders,
+  ): ModelRegistry {
+    return new ModelRegistry({}, loaders);
+  }
+
+  /**
+   * Creates a registry from binary model data (see `encodeModels`).
+   * The lookup indexes are read from the data instead of being built.
+   * @param data Binary model data.
+   * @param lexicons (Optional) Word lists as lexicons[lang]. Defaults to the bundled lists.
+   * @returns A registry holding the decoded models.
+   * @throws {Error} If the data is not valid binary model data.
+   */
+  static fromBinary(
+    data: Uint8Array | ArrayBuffer,
+    lexicons: Record<string, LexiconValue> = lexiconData,
+  ): ModelRegistry {
+    const registry = new ModelRegistry({}, {}, lexicons);
+    registry.addBinary(data);
+    return registry;
+  }
+
+  /**
+   * Registers every model of binary model data, with its stored index.
+   * @param data Binary model data.
+   * @throws {Error} If the data is not valid binary model data.
+   */
+  addBinary(data: Uint8Array | ArrayBuffer): void {
+    const models = decodeModels(data);
+    for (const script in models) {
+      const decoded: Record<string, string[]> = {};
+      for (const lang in models[script]) {
+        const { trigrams, index } = models[script][lang];
+        indexCache.set(trigrams, index);
+        decoded[lang] = trigrams;
+      }
+      this.models[script] = { ...this.models[script], ...decoded };
+      delete this.indexes[script];
+    }
+    this.revision++;
+  }
+
+  /**
+   * Registers every model of a language pack.
+   * @param pack Language pack.
+   */
+  addPack(pack: ILanguagePack): void {
+    for (const lang in pack.models) {
+      this.register(pack.script, lang, pack.models[lang]);
+    }
+    delete this.loaders[pack.script];
+  }
+
+  /**
+   * Checks whether a script has a pack that can be, but is not yet, loaded.
+   * @param script Script identifier.
+   * @returns True if `loadScript` would load models for the script.
+   */
+  isLoadable(script: string): boolean {
+    return script in this.loaders;
+  }
+
+  /**
+   * Loads the pack of a script, if it has a loader and is not loaded yet.
+   * Concurrent calls for the same script share a single load.
+   * @param script Script identifier.
+   * @returns True if the script has models once loading completes.
+   */
+  async loadScript(script: string): Promise<boolean> {
+    const loader = this.loaders[script];
+    if (loader) {
+      if (!this.pending[script]) {
+        this.pending[script] = loader()
+          .then((pack) => {
+            this.addPack(pack);
+            delete this.loaders[script];
+          })
+          .finally(() => delete this.pending[script]);
+      }
+      await this.pending[script];
+    }
+    return this.hasScript(script);
+  }
+
+  /**
+   * Loads every pack that has a loader.
+   */
+  async loadAll(): Promise<void> {
+    await Promise.all(
+      Object.keys(this.loaders).map((script) => this.loadScript(script)),
+    );
+  }
+
+  /**
+   * Registers a model. An existing model for the same script and language is replaced.
+   * @param script Script the model belongs to (e.g. "Latin").
+   * @param lang Language code (alpha‑3).
+   * @param model Ranked trigrams, as an array or a pipe‑separated string.
+   */
+  register(script: string, lang: string, model: NgramValue): void {
+    delete this.indexes[script];
+    this.models[script] = {
+      ...this.models[script],
+      [lang]: parseNgramValue(model),
+    };
+    this.revision++;
+  }
+
+  /**
+   * Removes a language model.
+   * @param lang Language code (alpha‑3).
+   * @param script (Optional) Restricts the removal to one script.
+   * @returns True if at least one model was removed.
+   */
+  remove(lang: string, script?: string): boolean {
+    let removed = false;
+    const targets = script ? [script] : Object.keys(this.models);
+    targets.forEach((key) => {
+      if (this.models[key] && lang in this.models[key]) {
+        const rest = { ...this.models[key] };
+        delete rest[lang];
+        this.models[key] = rest;
+        delete this.indexes[key];
+        removed = true;
+      }
+    });
+    if (removed) this.revision++;
+    return removed;
+  }
+
+  /**
+   * Removes every model, and the loaders of packs not loaded yet.
+   */
+  clear(): void {
+    this.models = {};
+    this.loaders = {};
+    this.indexes = {};
+    this.revision++;
+  }
+
+  /**
+   * Checks whether a language has a model.
+   * @param lang Language code (alpha‑3).
+   * @param script (Optional) Restricts the check to one script.
+   * @returns True if a model is registered.
+   */
+  has(lang: string, script?: string): boolean {
+    const targets = script ? [script] : Object.keys(this.models);
+    return targets.some((key) => Boolean(this.models[key]?.[lang]));
+  }
+
+  /**
+   * Checks whether a script has at least one model.
+   * @param script Script identifier.
+   * @returns True if models are registered for the script.
+   */
+  hasScript(script: string): boolean {
+    return Object.keys(this.models[script] ?? {}).length > 0;
+  }
+
+  /**
+   * Lists the scripts that have models.
+   * @returns Script identifiers.
+   */
+  getScripts(): string[] {
+    return Object.keys(this.models).filter((script) => this.hasScript(script));
+  }
+
+  /**
+   * Lists the languages with a model.
+   * @param script (Optional) Restricts the list to one script.
+   * @returns Language codes (alpha‑3), without duplicates.
+   */
+  getLanguages(script?: string): string[] {
+    const targets = script ? [script] : Object.keys(this.models);
+    const languages = new Set<string>();
+    targets.forEach((key) =>
+      Object.keys(this.models[key] ?? {}).forEach((lang) =>
+        languages.add(lang),
+      ),
+    );
+    return [...languages];
+  }
+
+  /**
+   * Returns the models of a script.
+   * @param script Script identifier.
+   * @returns Models as models[lang], or undefined if the script has none.
+   */
+  getModels(script: string): Record<string, string[]> | undefined {
+    return this.hasScript(script) ? this.models[script] : undefined;
+  }
+
+  /**
+   * Returns the lookup indexes of a script's models.
+   * @param script Script identifier.
+   * @returns Indexes by language; see `lookupRank`.
+   */
+  getIndexes(script: string): Record<string, ModelIndex> {
+    if (!this.indexes[script]) {
+      const indexes: Record<string, ModelIndex> = {};
+      for (const lang in this.models[script] ?? {}) {
+        indexes[lang] = buildModelIndex(this.models[script][lang]);
+      }
+      this.indexes[script] = indexes;
+    }
+    return this.indexes[script];
+  }
+
+  /**
+   * Registers the word list of a language, used by the lexicon layer.
+   * An existing list for the same language is replaced.
+   * @param lang Language code (alpha‑3).
+   * @param words Words, as an array or a space‑separated string.
+   */
+  registerLexicon(lang: string, words: LexiconValue): void {
+    this.lexicons = { ...this.lexicons, [lang]: parseLexiconValue(words) };
+    this.revision++;
+  }
+
+  /**
+   * Removes the word list of a language.
+   * @param lang Language code (alpha‑3).
+   * @returns True if a word list was removed.
+   */
+  removeLexicon(lang: string): boolean {
+    if (!(lang in this.lexicons)) return false;
+    const rest = { ...this.lexicons };
+    delete rest[lang];
+    this.lexicons = rest;
+    this.revision++;
+    return true;
+  }
+
+  /**
+   * Returns every word list.
+   * @returns Word lists as lexicons[lang].
+   */
+  getLexicons(): Record<string, string[]> {
+    return this.lexicons;
+  }
+
+  /**
+   * Returns a counter increased by every change to the models or word lists,
+   * so that results computed from them can be invalidated.
+   * @returns Revision number.
+   */
+  getRevision(): number {
+    return this.revision;
+  }
+
+  /**
+   * Creates an independent copy of this registry.
+   * @returns A new registry with the same models and word lists.
+   */
+  clone(): ModelRegistry {
+    return new ModelRegistry(this.models, this.loaders, this.lexicons);
+  }
+}
@@ -0,0 +1,21 @@
+import { IDetectionSettings } from "./interfaces/IDetectionSettings.js";
+
+// Model family of languages typed in Latin letters instead of their native
+// script (e.g. Hindi as "kya haal hai"), scored next to the Latin models.
+export const ROMANIZED_FAMILY = "Romanized";
+
+/**
+ * Lists the model families scored for text in a script: the script's own
+ * models, plus the romanized ones for Latin text when `romanized` is set.
+ * @param script Script identifier (e.g. "Latin").
+ * @param settings Detection settings.
+ * @returns Keys of the registry's model families.
+ */
+export function getModelFamilies(
+  script: string,
+  settings: IDetectionSettings,
+): string[] {
+  return settings.romanized && script === "Latin"
+    ? [script, ROMANIZED_FAMILY]
+    : [script];
+}
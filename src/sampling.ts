@@ -0,0 +1,39 @@
+import { ISamplingOptions } from "./interfaces/ISamplingOptions.js";
+
+// Default number of characters analyzed per text, for performance.
+export const DEFAULT_SAMPLE_LENGTH = 2048;
+
+// Default number of slices taken by the "spread" strategy.
+export const DEFAULT_SAMPLE_SLICES = 8;
+
+/**
+ * Selects the part of a text that is analyzed.
+ * - "head" keeps the first `maxLength` characters.
+ * - "spread" joins `slices` evenly spaced slices, `maxLength` characters in total,
+ *   so a header in another language does not decide the result of a long document.
+ * - "full" keeps the whole text.
+ * @param text Text to sample.
+ * @param options Optional sampling options.
+ * @returns Sampled text.
+ */
+export function sampleText(
+  text: string,
+  options: ISamplingOptions = {},
+): string {
+  const {
+    strategy = "head",
+    maxLength = DEFAULT_SAMPLE_LENGTH,
+    slices = DEFAULT_SAMPLE_SLICES,
+  } = options;
+  if (strategy === "full" || text.length <= maxLength) return text;
+  if (strategy === "head" || slices <= 1) return text.substring(0, maxLength);
+  const sliceLength = Math.floor(maxLength / slices);
+  const stride = (text.length - sliceLength) / (slices - 1);
+  const parts: string[] = [];
+  for (let i = 0; i < slices; i++) {
+    const start = Math.round(i * stride);
+    parts.push(text.substring(start, start + sliceLength));
+  }
+  // Slices are separated by spaces so no trigram spans two slices.
+  return parts.join(" ");
+}
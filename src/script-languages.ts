@@ -0,0 +1,133 @@
+import { scripts } from "./regex.js";
+
+/**
+ * Candidate languages of the scripts detected without n‑gram models, keyed
+ * by script identifier (see `scripts`), with the marker characters that tell
+ * them apart. Languages with markers claim a share of the text from their
+ * marker density; languages without markers share what is left.
+ * Han, kana and Hangul are handled by `detectCjk` instead.
+ */
+export const scriptLanguages: Record<string, Record<string, string>> = {
+  // Assamese writes "r" and "w" with letters Bengali does not use.
+  ben: { ben: "র", asm: "ৰৱ" },
+  tel: { tel: "" },
+  tam: { tam: "" },
+  guj: { guj: "" },
+  kan: { kan: "" },
+  mal: { mal: "" },
+  // Shan, Mon and S'gaw Karen add letters and tone marks to the Burmese ones.
+  Myanmar: {
+    mya: "",
+    shn: "ၵၶၷၸၹၺၻၼၽၾၿႀႁႂႃႄႅႆႇႈႉႊ",
+    mnw: "ၚၛၜၝၞၟၠ",
+    ksw: "ၡၥၦ",
+  },
+  ori: { ori: "" },
+  pan: { pan: "" },
+  // Used when the registry has no Ethiopic models.
+  Ethiopic: { amh: "", tir: "", tig: "", gez: "" },
+  tha: { tha: "" },
+  sin: { sin: "" },
+  ell: { ell: "" },
+  khm: { khm: "" },
+  hye: { hye: "" },
+  sat: { sat: "" },
+  bod: { bod: "", dzo: "" },
+  kat: { kat: "" },
+  lao: { lao: "" },
+  zgh: { zgh: "" },
+  iii: { iii: "" },
+  ave: { ave: "" },
+  Syriac: { aii: "", syc: "" },
+};
+
+// Weight of one marker character, relative to one ordinary character.
+// Markers are a small share of any text, so each one counts for several.
+const MARKER_WEIGHT = 5;
+
+// Letters and combining marks, the characters a script purity is measured on.
+const LETTERS = /[\p{L}\p{M}]/gu;
+
+/**
+ * Measures how purely a text is written in a script.
+ * @param text Text to analyze.
+ * @param script Script identifier (see `scripts`).
+ * @returns Share of the letters and marks written in the script, between 0 and 1.
+ */
+export function getScriptPurity(text: string, script: string): number {
+  const pattern = scripts[script];
+  const letters = text.match(LETTERS)?.length ?? 0;
+  if (!pattern || letters === 0) return 0;
+  return Math.min(1, (text.match(pattern)?.length ?? 0) / letters);
+}
+
+/**
+ * Scores the candidate languages of a script without n‑gram models.
+ * Each language with markers claims a share of the text from the density of
+ * its markers; the rest is split evenly between the languages without
+ * markers, or between all candidates when none has markers or every one has.
+ * Scores are scaled by the purity of the script, so a single-language script
+ * gives its language a score that tells how much of the text it covers, and
+ * candidates with equal scores mark an ambiguous result.
+ * @param text Text to analyze.
+ * @param script Script identifier (see `scripts`).
+ * @returns Sorted list of [language, score] tuples, or an empty list if the
+ * script has no candidates or the text no letters of the script.
+ */
+export function detectScriptLanguages(
+  text: string,
+  script: string,
+): [string, number][] {
+  const candidates = scriptLanguages[script];
+  const purity = getScriptPurity(text, script);
+  if (!candidates || purity === 0) return [];
+
+  // The shared patterns are global, which makes `test` stateful.
+  const pattern = new RegExp(scripts[script].source, "u");
+  const languages = Object.keys(candidates);
+  const hits: Record<string, number> = {};
+  let total = 0;
+  let letters = 0;
+  const markers = new Map<string, string>();
+  languages.forEach((lang) => {
+    hits[lang] = 0;
+    for (const char of candidates[lang]) markers.set(char, lang);
+  });
+  for (const char of text) {
+    if (!pattern.test(char)) continue;
+    letters++;
+    const lang = markers.get(char);
+    if (lang) {
+      hits[lang]++;
+      total++;
+    }
+  }
+
+  const marked = languages.filter((lang) => candidates[lang]);
+  const unmarked = languages.filter((lang) => !candidates[lang]);
+  let shares: [string, number][];
+  if (total === 0) {
+    // Nothing tells the candidates apart.
+    const pool = unmarked.length > 0 ? unmarked : languages;
+    shares = pool.map((lang) => [lang, 1 / pool.length]);
+  } else if (unmarked.length === 0) {
+    // Every candidate has markers: weigh them against each other.
+    shares = languages.map((lang) => [lang, hits[lang] / total]);
+  } else {
+    const claims = marked.map((lang) =>
+      Math.min(1, (MARKER_WEIGHT * hits[lang]) / letters),
+    );
+    const sum = claims.reduce((acc, claim) => acc + claim, 0);
+    // Claims adding up to more than the whole text are rescaled.
+    const scale = sum > 1 ? 1 / sum : 1;
+    const rest = (1 - sum * scale) / unmarked.length;
+    shares = [
+      ...marked.map((lang, i): [string, number] => [lang, claims[i] * scale]),
+      ...unmarked.map((lang): [string, number] => [lang, rest]),
+    ];
+  }
+  return shares
+    .map(([lang, share]): [string, number] => [lang, share * purity])
+    .filter(([, score]) => score > 0)
+    .sort((a, b) => b[1] - a[1]);
+}
@@ -0,0 +1,178 @@
+// Default sliding window parameters, in characters.
+export const DEFAULT_WINDOW_SIZE = 40;
+export const DEFAULT_STEP_SIZE = 20;
+
+// A labelled stretch of text: [start, end) with a language and confidence.
+export type LabelledRange = {
+  start: number;
+  end: number;
+  label: string;
+  confidence: number;
+};
+
+/**
+ * Computes sliding windows covering a text of the given length.
+ * The last window is aligned with the end of the text so it is never truncated.
+ * @param length Text length.
+ * @param windowSize Window size in characters.
+ * @param stepSize Distance between window starts.
+ * @returns List of [start, end) windows.
+ */
+export function buildWindows(
+  length: number,
+  windowSize = DEFAULT_WINDOW_SIZE,
+  stepSize = DEFAULT_STEP_SIZE,
+): [number, number][] {
+  if (length <= 0) return [];
+  if (length <= windowSize) return [[0, length]];
+  const step = Math.max(1, stepSize);
+  const windows: [number, number][] = [];
+  for (let start = 0; start + windowSize < length; start += step) {
+    windows.push([start, start + windowSize]);
+  }
+  windows.push([length - windowSize, length]);
+  return windows;
+}
+
+/**
+ * Splits the text into cells at every window boundary and labels each cell
+ * by a confidence-weighted vote of the windows covering it.
+ * @param windows Labelled windows.
+ * @returns Labelled cells, in order and contiguous.
+ */
+export function voteCells(windows: LabelledRange[]): LabelledRange[] {
+  const points = [
+    ...new Set(windows.flatMap(({ start, end }) => [start, end])),
+  ].sort((a, b) => a - b);
+  const cells: LabelledRange[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const [start, end] = [points[i], points[i + 1]];
+    const covering = windows.filter((w) => w.start <= start && w.end >= end);
+    const votes: Record<string, number> = {};
+    covering.forEach(({ label, confidence }) => {
+      votes[label] = (votes[label] || 0) + confidence;
+    });
+    const [label, weight] = Object.entries(votes).sort(
+      (a, b) => b[1] - a[1],
+    )[0] ?? ["und", 0];
+    cells.push({
+      start,
+      end,
+      label,
+      confidence: covering.length ? weight / covering.length : 0,
+    });
+  }
+  return cells;
+}
+
+/**
+ * Relabels single cells whose neighbours agree on another label.
+ * @param cells Labelled cells, in order.
+ * @returns Smoothed cells.
+ */
+export function smoothCells(cells: LabelledRange[]): LabelledRange[] {
+  return cells.map((cell, i) => {
+    const prev = cells[i - 1];
+    const next = cells[i + 1];
+    if (
+      prev &&
+      next &&
+      prev.label === next.label &&
+      cell.label !== prev.label
+    ) {
+      return {
+        ...cell,
+        label: prev.label,
+        confidence: (prev.confidence + next.confidence) / 2,
+      };
+    }
+    return cell;
+  });
+}
+
+/**
+ * Merges adjacent cells with the same label.
+ * The confidence of a merged range is the length-weighted mean of its cells.
+ * @param cells Labelled cells, in order.
+ * @returns Merged ranges.
+ */
+export function mergeCells(cells: LabelledRange[]): LabelledRange[] {
+  const merged: LabelledRange[] = [];
+  cells.forEach((cell) => {
+    const last = merged[merged.length - 1];
+    if (last && last.label === cell.label) {
+      const lastLength = last.end - last.start;
+      const cellLength = cell.end - cell.start;
+      last.confidence =
+        (last.confidence * lastLength + cell.confidence * cellLength) /
+        (lastLength + cellLength);
+      last.end = cell.end;
+    } else {
+      merged.push({ ...cell });
+    }
+  });
+  return merged;
+}
+
+// Positions right after a sentence or clause end, and right after whitespace.
+const SENTENCE_BREAK = /[.!?;:]\s+/gu;
+const WORD_BREAK = /\s+/gu;
+
+/**
+ * Finds the break position closest to a boundary.
+ * @param text Segmented text.
+ * @param pattern Global pattern whose match ends are candidate positions.
+ * @param boundary Original boundary.
+ * @param maxShift Maximum distance from the boundary.
+ * @returns The closest position, or undefined if none is within reach.
+ */
+function closestBreak(
+  text: string,
+  pattern: RegExp,
+  boundary: number,
+  maxShift: number,
+): number | undefined {
+  let best: number | undefined;
+  for (const match of text.matchAll(pattern)) {
+    const position = (match.index ?? 0) + match[0].length;
+    const shift = Math.abs(position - boundary);
+    if (
+      shift <= maxShift &&
+      (best === undefined || shift < Math.abs(best - boundary))
+    ) {
+      best = position;
+    }
+  }
+  return best;
+}
+
+/**
+ * Moves the boundaries between ranges to the nearest sentence break or,
+ * failing that, the nearest whitespace, so that words are not split across ranges.
+ * @param text Segmented text.
+ * @param ranges Contiguous ranges, in order.
+ * @param maxShift Maximum distance a boundary may move.
+ * @returns Ranges with adjusted boundaries.
+ */
+export function snapToWords(
+  text: string,
+  ranges: LabelledRange[],
+  maxShift: number,
+): LabelledRange[] {
+  const snapped = ranges.map((range) => ({ ...range }));
+  for (let i = 1; i < snapped.length; i++) {
+    const boundary = snapped[i].start;
+    let best =
+      closestBreak(text, SENTENCE_BREAK, boundary, maxShift) ??
+      closestBreak(text, WORD_BREAK, boundary, maxShift) ??
+      boundary;
+    // Never collapse a range.
+    best = Math.min(
+      Math.max(best, snapped[i - 1].start + 1),
+      snapped[i].end - 1,
+    );
+    snapped[i - 1].end = best;
+    snapped[i].start = best;
+  }
+  return snapped;
+}
@@ -0,0 +1,27 @@
+import { scriptSubtags } from "./regex.js";
+import { CJK_SCRIPTS, cjkScriptSubtag } from "./cjk.js";
+import { ILanguageData } from "./interfaces/ILanguageData.js";
+
+/**
+ * Builds a BCP 47 language tag with a script subtag, e.g. "sr-Cyrl" or "uz-Latn".
+ * The shortest language code is used, as BCP 47 requires: alpha‑2 when the
+ * language has one, alpha‑3 otherwise.
+ * @param language Language codes.
+ * @param script Script identifier, as used in `scripts` (e.g. "Cyrillic").
+ * @param text (Optional) Text the language was detected in. For Han, kana and
+ * Hangul text it selects "Hans", "Hant", "Jpan" or "Kore" instead of "Hani".
+ * @returns Language tag, without script subtag if the script is unknown.
+ */
+export function toLanguageTag(
+  language: Pick<ILanguageData, "alpha2" | "alpha3">,
+  script: string,
+  text?: string,
+): string {
+  const primary = language.alpha2 || language.alpha3;
+  if (primary === "und") return "und";
+  const subtag =
+    text !== undefined && CJK_SCRIPTS.includes(script)
+      ? cjkScriptSubtag(language.alpha3, text)
+      : scriptSubtags[script];
+  return subtag ? `${primary}-${subtag}` : primary;
+}
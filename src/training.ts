@@ -0,0 +1,60 @@
+import { LanguageGuesser } from "./language.js";
+
+// Number of trigrams kept per profile, matching the bundled models.
+export const DEFAULT_PROFILE_SIZE = 300;
+
+/**
+ * Builds a ranked trigram profile from a training corpus.
+ * Trigrams are extracted with the same pipeline used during detection.
+ * @param corpus Training text, or a list of documents.
+ * @param size Maximum number of trigrams kept in the profile.
+ * @returns Trigrams ordered from most to least frequent.
+ */
+export function trainProfile(
+  corpus: string | string[],
+  size = DEFAULT_PROFILE_SIZE,
+): string[] {
+  const documents = Array.isArray(corpus) ? corpus : [corpus];
+  const frequencyMap: Record<string, number> = {};
+  documents.forEach((document) => {
+    LanguageGuesser.asTuples(document).forEach(([trigram, freq]) => {
+      frequencyMap[trigram] = (frequencyMap[trigram] || 0) + freq;
+    });
+  });
+  const tuples = Object.entries(frequencyMap);
+  // Most frequent first; ties are broken alphabetically for stable output.
+  tuples.sort((a, b) => b[1] - a[1] || (a[0] < b[0] ? -1 : 1));
+  return tuples.slice(0, size).map(([trigram]) => trigram);
+}
+
+/**
+ * Serializes a trigram profile into the pipe‑separated format read by `parseNgramValue`.
+ * @param profile Ranked trigram profile.
+ * @returns Pipe‑separated n‑gram string.
+ */
+export function serializeProfile(profile: string[]): string {
+  return profile.join("|");
+}
+
+/**
+ * Trains profiles for several languages, grouped by script.
+ * The result has the same shape as the bundled `ngrams.json`.
+ * @param corpora Training corpora as corpora[script][lang].
+ * @param size Maximum number of trigrams kept per profile.
+ * @returns Serialized profiles as models[script][lang].
+ */
+export function trainModels(
+  corpora: Record<string, Record<string, string | string[]>>,
+  size = DEFAULT_PROFILE_SIZE,
+): Record<string, Record<string, string>> {
+  const models: Record<string, Record<string, string>> = {};
+  for (const script in corpora) {
+    models[script] = {};
+    for (const lang in corpora[script]) {
+      models[script][lang] = serializeProfile(
+        trainProfile(corpora[script][lang], size),
+      );
+    }
+  }
+  return models;
+}
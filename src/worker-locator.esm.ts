@@ -0,0 +1,8 @@
+/**
+ * Returns the worker script bundled with the package. Replaces
+ * `worker-locator.ts` in the ES module build.
+ * @returns URL of `batch-worker.js`, next to this module.
+ */
+export function defaultWorkerScript(): string | URL {
+  return new URL("./batch-worker.js", import.meta.url);
+}
@@ -0,0 +1,10 @@
+import { join } from "node:path";
+
+/**
+ * Returns the worker script bundled with the package. The ES module build
+ * uses `worker-locator.esm.ts` instead, where `__dirname` is not defined.
+ * @returns Path of `batch-worker.js`, next to this module.
+ */
+export function defaultWorkerScript(): string | URL {
+  return join(__dirname, "batch-worker.js");
+}